@@ -1,40 +1,68 @@
+import { useStore } from '@nanostores/react';
 import React, { useState } from 'react';
+import { toast } from 'react-toastify';
 import { IconButton } from '~/components/ui/IconButton';
+import { getProvider } from '~/lib/providers';
+import { apiKeyStatusStore, revokeApiKey, storeApiKey } from '~/lib/stores/api-keys';
 import type { ProviderInfo } from '~/types/model';
 
 interface APIKeyManagerProps {
   provider: ProviderInfo;
-  apiKey: string;
-  setApiKey: (key: string) => void;
-  getApiKeyLink?: string;
-  labelForGetApiKey?: string;
 }
 
-export const APIKeyManager: React.FC<APIKeyManagerProps> = ({
-                                                              provider,
-                                                              apiKey,
-                                                              setApiKey,
-                                                            }) => {
+export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider }) => {
   const [isEditing, setIsEditing] = useState(false);
-  const [tempKey, setTempKey] = useState(apiKey);
+  const [tempKey, setTempKey] = useState('');
 
-  const handleSave = () => {
-    setApiKey(tempKey);
-    setIsEditing(false);
+  const status = useStore(apiKeyStatusStore)[provider?.name];
+
+  // local providers like Ollama don't take an API key, we only link to their download page
+  const acceptsApiKey = !!getProvider(provider?.name)?.envKeys.apiKey;
+
+  const handleSave = async () => {
+    try {
+      await storeApiKey(provider.name, tempKey);
+
+      setTempKey('');
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(`Failed to store the API key: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeApiKey(provider.name);
+    } catch (error) {
+      toast.error(`Failed to remove the API key: ${(error as Error).message}`);
+    }
   };
 
   return (
     <div className="flex items-center gap-2 mt-2 mb-2">
-      <span className="text-sm text-bolt-elements-textSecondary">{provider?.name} API Key:</span>
-      {isEditing ? (
+      {acceptsApiKey && <span className="text-sm text-bolt-elements-textSecondary">{provider?.name} API Key:</span>}
+      {!acceptsApiKey ? (
+        <>
+          <span className="flex-1 text-sm text-bolt-elements-textSecondary">
+            {provider?.name} doesn't require an API key
+          </span>
+          {provider?.getApiKeyLink && (
+            <IconButton onClick={() => window.open(provider?.getApiKeyLink)} title={provider?.labelForGetApiKey}>
+              <span className="mr-2">{provider?.labelForGetApiKey || 'Get API Key'}</span>
+              <div className={provider?.icon || 'i-ph:key'} />
+            </IconButton>
+          )}
+        </>
+      ) : isEditing ? (
         <>
           <input
             type="password"
             value={tempKey}
+            placeholder={status ? 'Enter a new key to replace the stored one' : undefined}
             onChange={(e) => setTempKey(e.target.value)}
             className="flex-1 p-1 text-sm rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
           />
-          <IconButton onClick={handleSave} title="Save API Key">
+          <IconButton onClick={handleSave} title="Save API Key" disabled={!tempKey.trim()}>
             <div className="i-ph:check" />
           </IconButton>
           <IconButton onClick={() => setIsEditing(false)} title="Cancel">
@@ -43,17 +71,27 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({
         </>
       ) : (
         <>
-          <span className="flex-1 text-sm text-bolt-elements-textPrimary">
-            {apiKey ? '••••••••' : 'Not set (will still work if set in .env file)'}
+          <span
+            className="flex-1 text-sm text-bolt-elements-textPrimary"
+            title={status ? `Stored encrypted on ${new Date(status.updatedAt).toLocaleString()}` : undefined}
+          >
+            {status ? '••••••••' : 'Not set (will still work if set in .env file)'}
           </span>
-          <IconButton onClick={() => setIsEditing(true)} title="Edit API Key">
+          <IconButton onClick={() => setIsEditing(true)} title={status ? 'Replace API Key' : 'Set API Key'}>
             <div className="i-ph:pencil-simple" />
           </IconButton>
+          {status && (
+            <IconButton onClick={handleRevoke} title="Remove API Key">
+              <div className="i-ph:trash" />
+            </IconButton>
+          )}
 
-          {provider?.getApiKeyLink && <IconButton onClick={() => window.open(provider?.getApiKeyLink)} title="Edit API Key">
-            <span className="mr-2">{provider?.labelForGetApiKey || 'Get API Key'}</span>
-            <div className={provider?.icon || "i-ph:key"} />
-          </IconButton>}
+          {provider?.getApiKeyLink && (
+            <IconButton onClick={() => window.open(provider?.getApiKeyLink)} title="Edit API Key">
+              <span className="mr-2">{provider?.labelForGetApiKey || 'Get API Key'}</span>
+              <div className={provider?.icon || 'i-ph:key'} />
+            </IconButton>
+          )}
         </>
       )}
     </div>
@@ -5,6 +5,7 @@ import { memo, useEffect, useRef, useState } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
 import type { ActionState } from '~/lib/runtime/action-runner';
 import { workbenchStore } from '~/lib/stores/workbench';
+import type { CommandFailure } from '~/types/actions';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
 
@@ -33,7 +34,7 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
 
   const actions = useStore(
     computed(artifact.runner.actions, (actions) => {
-      return Object.values(actions);
+      return Object.entries(actions);
     }),
   );
 
@@ -92,7 +93,7 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
           >
             <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
             <div className="p-5 text-left bg-bolt-elements-actions-background">
-              <ActionList actions={actions} />
+              <ActionList messageId={messageId} actions={actions} />
             </div>
           </motion.div>
         )}
@@ -121,7 +122,10 @@ function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
 }
 
 interface ActionListProps {
-  actions: ActionState[];
+  messageId: string;
+
+  // actions with their ids
+  actions: [string, ActionState][];
 }
 
 const actionVariants = {
@@ -129,11 +133,11 @@ const actionVariants = {
   visible: { opacity: 1, y: 0 },
 };
 
-const ActionList = memo(({ actions }: ActionListProps) => {
+const ActionList = memo(({ messageId, actions }: ActionListProps) => {
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
       <ul className="list-none space-y-2.5">
-        {actions.map((action, index) => {
+        {actions.map(([actionId, action], index) => {
           const { status, type, content } = action;
           const isLast = index === actions.length - 1;
 
@@ -160,6 +164,10 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     </>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'awaiting-approval' ? (
+                    <div className="i-ph:pause-circle-duotone"></div>
+                  ) : status === 'skipped' ? (
+                    <div className="i-ph:minus-circle"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
@@ -173,9 +181,42 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                       {action.filePath}
                     </code>
                   </div>
+                ) : type === 'patch' ? (
+                  <div>
+                    Update{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'delete' ? (
+                  <div>
+                    Delete{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md line-through">
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'move' ? (
+                  <div>
+                    Move{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>{' '}
+                    to{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.newPath}
+                    </code>
+                  </div>
+                ) : type === 'mkdir' ? (
+                  <div>
+                    Create folder{' '}
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.dirPath}
+                    </code>
+                  </div>
                 ) : type === 'shell' ? (
                   <div className="flex items-center w-full min-h-[28px]">
                     <span className="flex-1">Run command</span>
+                    {status === 'skipped' && <SkippedCommandNote blocked={action.blocked} />}
                   </div>
                 ) : type === 'start' ? (
                   <a
@@ -186,17 +227,37 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     className="flex items-center w-full min-h-[28px]"
                   >
                     <span className="flex-1">Start Application</span>
+                    {status === 'skipped' && <SkippedCommandNote blocked={action.blocked} />}
                   </a>
                 ) : null}
               </div>
+              {type === 'patch' && status === 'failed' && (
+                <div className="mt-1 ml-6 text-xs text-bolt-elements-icon-error whitespace-pre-wrap">
+                  {action.error}
+                </div>
+              )}
               {(type === 'shell' || type === 'start') && (
                 <ShellCodeBlock
                   classsName={classNames('mt-1', {
-                    'mb-3.5': !isLast,
+                    'mb-3.5': !isLast && status !== 'failed' && status !== 'awaiting-approval',
                   })}
                   code={content}
                 />
               )}
+              {(type === 'shell' || type === 'start') && status === 'awaiting-approval' && (
+                <CommandApproval
+                  className={classNames({ 'mb-3.5': !isLast })}
+                  messageId={messageId}
+                  actionId={actionId}
+                  command={content}
+                />
+              )}
+              {(type === 'shell' || type === 'start') && status === 'failed' && action.output !== undefined && (
+                <CommandFailureDetails
+                  className={classNames({ 'mb-3.5': !isLast })}
+                  failure={{ type, command: content, exitCode: action.exitCode ?? -1, output: action.output }}
+                />
+              )}
             </motion.li>
           );
         })}
@@ -205,17 +266,115 @@ const ActionList = memo(({ actions }: ActionListProps) => {
   );
 });
 
+interface CommandFailureDetailsProps {
+  className?: string;
+  failure: CommandFailure;
+}
+
+function CommandFailureDetails({ className, failure }: CommandFailureDetailsProps) {
+  const chatRequest = useStore(workbenchStore.chatRequest);
+
+  return (
+    <div className={classNames('mt-1 text-xs', className)}>
+      {failure.output && (
+        <pre className="max-h-40 overflow-auto p-2 rounded-md bg-bolt-elements-background-depth-1 text-bolt-elements-textSecondary whitespace-pre-wrap break-words">
+          {failure.output}
+        </pre>
+      )}
+      <div className="flex items-center gap-2 mt-1.5">
+        <span className="flex-1 text-bolt-elements-textTertiary">Exited with code {failure.exitCode}</span>
+        <button
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50"
+          disabled={chatRequest !== undefined}
+          onClick={() => workbenchStore.requestFix(failure)}
+        >
+          <div className="i-ph:wrench" />
+          Ask Bolt to fix
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface CommandApprovalProps {
+  className?: string;
+  messageId: string;
+  actionId: string;
+  command: string;
+}
+
+function CommandApproval({ className, messageId, actionId, command }: CommandApprovalProps) {
+  // the command the user is editing, it runs instead of the original one
+  const [editedCommand, setEditedCommand] = useState<string>();
+
+  return (
+    <div className={classNames('mt-1 text-xs', className)}>
+      {editedCommand !== undefined && (
+        <textarea
+          value={editedCommand}
+          rows={Math.min(editedCommand.split('\n').length, 6)}
+          autoFocus
+          spellCheck={false}
+          onChange={(event) => setEditedCommand(event.target.value)}
+          className="w-full p-2 rounded-md font-mono resize-none bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary border border-bolt-elements-borderColor focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
+        />
+      )}
+      <div className="flex items-center gap-2 mt-1.5">
+        <span className="flex-1 text-bolt-elements-textTertiary">Waiting for your approval</span>
+        <button
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+          onClick={() => setEditedCommand(editedCommand === undefined ? command : undefined)}
+        >
+          <div className={editedCommand === undefined ? 'i-ph:pencil-simple' : 'i-ph:x'} />
+          {editedCommand === undefined ? 'Edit' : 'Cancel edit'}
+        </button>
+        <button
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+          onClick={() => workbenchStore.skipCommand(messageId, actionId)}
+        >
+          <div className="i-ph:skip-forward" />
+          Skip
+        </button>
+        <button
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-50"
+          disabled={editedCommand?.trim() === ''}
+          onClick={() => workbenchStore.approveCommand(messageId, actionId, editedCommand?.trim())}
+        >
+          <div className="i-ph:play" />
+          Approve
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface SkippedCommandNoteProps {
+  blocked?: boolean;
+}
+
+function SkippedCommandNote({ blocked }: SkippedCommandNoteProps) {
+  return (
+    <span className="text-xs text-bolt-elements-textTertiary">
+      {blocked ? 'Blocked by the command policy' : 'Skipped'}
+    </span>
+  );
+}
+
 function getIconColor(status: ActionState['status']) {
   switch (status) {
     case 'pending': {
       return 'text-bolt-elements-textTertiary';
     }
+    case 'awaiting-approval': {
+      return 'text-bolt-elements-item-contentAccent';
+    }
     case 'running': {
       return 'text-bolt-elements-loader-progress';
     }
     case 'complete': {
       return 'text-bolt-elements-icon-success';
     }
+    case 'skipped':
     case 'aborted': {
       return 'text-bolt-elements-textSecondary';
     }
@@ -1,14 +1,107 @@
-import { memo } from 'react';
+import type { JSONValue, ToolInvocation } from 'ai';
+import { memo, useState } from 'react';
+import type { AlternativesAnnotation, RulesAnnotation } from '~/types/annotations';
+import { classNames } from '~/utils/classNames';
+import { getMessageAnnotations } from '~/utils/annotations';
+import { summarizeArtifacts } from '~/utils/compare';
+import { BOLT_RULES_FILE } from '~/utils/constants';
+import { formatCost, formatTokens, getUsageAnnotation } from '~/utils/usage';
+import { FileToolCalls } from './FileToolCalls';
 import { Markdown } from './Markdown';
 
 interface AssistantMessageProps {
   content: string;
+  annotations?: JSONValue[];
+  toolInvocations?: ToolInvocation[];
 }
 
-export const AssistantMessage = memo(({ content }: AssistantMessageProps) => {
+export const AssistantMessage = memo(({ content, annotations, toolInvocations }: AssistantMessageProps) => {
+  const modelAnnotation = getMessageAnnotations({ annotations }, 'model').at(-1);
+  const fallbackFrom = modelAnnotation?.fallbackFrom;
+  const usage = getUsageAnnotation({ annotations });
+  const rules = getMessageAnnotations({ annotations }, 'rules').at(-1);
+  const alternatives = getMessageAnnotations({ annotations }, 'alternatives').at(-1);
+
   return (
     <div className="overflow-hidden w-full">
+      {modelAnnotation && fallbackFrom && (
+        <div
+          className="flex items-center gap-1.5 mb-2 text-xs text-bolt-elements-textTertiary"
+          title={fallbackFrom.reason}
+        >
+          <div className="i-ph:arrows-clockwise shrink-0" />
+          {`Answered by ${modelAnnotation.model} (${modelAnnotation.provider}) because ${fallbackFrom.model} (${fallbackFrom.provider}) was unavailable`}
+        </div>
+      )}
+      {rules && <AppliedRules rules={rules} />}
+      {toolInvocations && <FileToolCalls toolInvocations={toolInvocations} />}
       <Markdown html>{content}</Markdown>
+      {usage && (
+        <div className="flex flex-wrap gap-x-3 mt-2 text-xs text-bolt-elements-textTertiary">
+          <span>{usage.model}</span>
+          <span title="Prompt / completion tokens">
+            {formatTokens(usage.promptTokens)} in / {formatTokens(usage.completionTokens)} out
+          </span>
+          {usage.segments > 1 && <span>{usage.segments} segments</span>}
+          <span>{(usage.latencyMs / 1000).toFixed(1)}s</span>
+          {usage.cost !== undefined && <span>{formatCost(usage.cost)}</span>}
+        </div>
+      )}
+      {alternatives && <Alternatives alternatives={alternatives} />}
     </div>
   );
 });
+
+function AppliedRules({ rules }: { rules: RulesAnnotation }) {
+  const sources = [rules.project && BOLT_RULES_FILE, rules.global && 'global rules'].filter(Boolean);
+  const details = [
+    rules.project && `${BOLT_RULES_FILE}:\n${rules.project}`,
+    rules.global && `Global:\n${rules.global}`,
+  ];
+
+  return (
+    <div
+      className="flex items-center gap-1.5 mb-2 text-xs text-bolt-elements-textTertiary"
+      title={details.filter(Boolean).join('\n\n')}
+    >
+      <div className="i-ph:scroll shrink-0" />
+      {`Rules applied: ${sources.join(', ')}`}
+    </div>
+  );
+}
+
+/**
+ * Responses of the other models the user compared this response with. They were never applied to the project.
+ */
+function Alternatives({ alternatives }: { alternatives: AlternativesAnnotation }) {
+  const [selected, setSelected] = useState<number>();
+
+  const { responses } = alternatives;
+
+  return (
+    <div className="mt-3 text-xs text-bolt-elements-textSecondary">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <div className="i-ph:columns shrink-0" />
+        Compared with
+        {responses.map((response, index) => (
+          <button
+            key={index}
+            title={response.provider}
+            className={classNames('px-1.5 py-0.5 rounded border bg-transparent', {
+              'border-bolt-elements-borderColorActive text-bolt-elements-item-contentAccent': selected === index,
+              'border-bolt-elements-borderColor hover:text-bolt-elements-textPrimary': selected !== index,
+            })}
+            onClick={() => setSelected(selected === index ? undefined : index)}
+          >
+            {response.model}
+          </button>
+        ))}
+      </div>
+      {selected !== undefined && responses[selected] && (
+        <div className="mt-2 p-3 rounded-lg border border-bolt-elements-borderColor text-sm">
+          <Markdown>{summarizeArtifacts(responses[selected].content)}</Markdown>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,44 @@
 // @ts-nocheck
 // Preventing TS checks with files presented in the video for a better presentation.
-import type { Message } from 'ai';
-import React, { type RefCallback, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Attachment, Message } from 'ai';
+import React, { type RefCallback, useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
 import { ClientOnly } from 'remix-utils/client-only';
 import { Menu } from '~/components/sidebar/Menu.client';
 import { IconButton } from '~/components/ui/IconButton';
 import { Workbench } from '~/components/workbench/Workbench.client';
 import { classNames } from '~/utils/classNames';
-import { MODEL_LIST, DEFAULT_PROVIDER, PROVIDER_LIST, initializeModelList } from '~/utils/constants';
+import { MODEL_LIST, PROVIDER_LIST } from '~/utils/constants';
 import { Messages } from './Messages.client';
 import { SendButton } from './SendButton.client';
 import { useState } from 'react';
 import { APIKeyManager } from './APIKeyManager';
-import Cookies from 'js-cookie';
+import { ChatErrorAlert } from './ChatErrorAlert';
+import { getFullFilesPrompt, PatchFailureAlert } from './PatchFailureAlert';
+import { CompareModelPicker } from './CompareModelPicker';
+import { CompareResponses } from './CompareResponses';
+import { CommandPolicyPicker } from './CommandPolicyPicker';
+import { EnhancedPromptDiff } from './EnhancedPromptDiff';
+import { EnhancerPresetPicker } from './EnhancerPresetPicker';
+import { FileContextChips } from './FileContextChips';
+import { FileMentionMenu } from './FileMentionMenu';
+import { GenerationSettingsPanel } from './GenerationSettingsPanel';
+import { ImageAttachments } from './ImageAttachments';
+import { apiKeyStatusStore, loadApiKeyStatus, storeApiKey } from '~/lib/stores/api-keys';
+import { getProviderUnavailableReason, loadModels, providerStatusStore } from '~/lib/stores/models';
+import { MAX_AUTO_FIX_ATTEMPTS } from '~/utils/action-failures';
+import { IMAGE_CONTENT_TYPES } from '~/utils/attachments';
+import { describeModel, filterModels, getModelInfo, resolveModelInfo, sortModels } from '~/utils/models';
 
 import styles from './BaseChat.module.scss';
-import type { ProviderInfo } from '~/utils/types';
+import type { PatchFailure } from '~/types/actions';
+import type { CompareCandidate, CompareResponse } from '~/types/compare';
+import type { ChatErrorInfo } from '~/types/errors';
+import type { FileMentions } from '~/lib/hooks/useFileMentions';
+import type { PromptEnhancement } from '~/lib/hooks/usePromptEnhancer';
+import type { GenerationSettings } from '~/types/generation';
+import type { ProviderInfo } from '~/types/model';
 
 const EXAMPLE_PROMPTS = [
   { text: 'Build a todo app in React using Tailwind' },
@@ -27,39 +50,142 @@ const EXAMPLE_PROMPTS = [
 
 const providerList = PROVIDER_LIST;
 
-const ModelSelector = ({ model, setModel, provider, setProvider, modelList, providerList }) => {
+const MODEL_SORT_OPTIONS = [
+  { value: 'name', label: 'Name' },
+  { value: 'contextLength', label: 'Context length' },
+  { value: 'maxOutputTokens', label: 'Output limit' },
+  { value: 'price', label: 'Price' },
+];
+
+const filterButtonClassName = (active) =>
+  classNames('px-1.5 py-0.5 rounded border bg-transparent', {
+    'border-bolt-elements-borderColorActive text-bolt-elements-item-contentAccent': active,
+    'border-bolt-elements-borderColor hover:text-bolt-elements-textPrimary': !active,
+  });
+
+const ModelSelector = ({
+  model,
+  setModel,
+  provider,
+  setProvider,
+  modelList,
+  providerList,
+  providerStatus,
+  selectRef,
+  onRefresh,
+}) => {
+  const [refreshing, setRefreshing] = useState(false);
+  const [filter, setFilter] = useState({ vision: false, toolCalling: false });
+  const [sortKey, setSortKey] = useState('name');
+  const unavailableReason = getProviderUnavailableReason(providerStatus[provider?.name]);
+
+  const refresh = async () => {
+    setRefreshing(true);
+
+    try {
+      await onRefresh();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // the selected model stays in the list so the select doesn't jump to another model
+  const providerModels = sortModels(
+    filterModels(modelList.filter((e) => e.provider == provider?.name && e.name).map(resolveModelInfo), filter),
+    sortKey,
+  );
+
+  if (model && !providerModels.some((m) => m.name === model)) {
+    providerModels.unshift(getModelInfo(provider?.name, model));
+  }
+
   return (
-    <div className="mb-2 flex gap-2">
-      <select
-        value={provider?.name}
-        onChange={(e) => {
-          setProvider(providerList.find(p => p.name === e.target.value));
-          const firstModel = [...modelList].find((m) => m.provider == e.target.value);
-          setModel(firstModel ? firstModel.name : '');
-        }}
-        className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
-      >
-        {providerList.map((provider) => (
-          <option key={provider.name} value={provider.name}>
-            {provider.name}
-          </option>
-        ))}
-      </select>
-      <select
-        key={provider?.name}
-        value={model}
-        onChange={(e) => setModel(e.target.value)}
-        style={{maxWidth: "70%"}}
-        className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
-      >
-        {[...modelList]
-          .filter((e) => e.provider == provider?.name && e.name)
-          .map((modelOption) => (
-            <option key={modelOption.name} value={modelOption.name}>
+    <div className="mb-2">
+      <div className="flex gap-2">
+        <select
+          value={provider?.name}
+          onChange={(e) => {
+            setProvider(providerList.find(p => p.name === e.target.value));
+            const firstModel = [...modelList].find((m) => m.provider == e.target.value);
+            setModel(firstModel ? firstModel.name : '');
+          }}
+          className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
+        >
+          {providerList.map((provider) => {
+            const reason = getProviderUnavailableReason(providerStatus[provider.name]);
+
+            return (
+              <option
+                key={provider.name}
+                value={provider.name}
+                title={reason}
+                className={reason ? 'text-bolt-elements-textTertiary' : undefined}
+              >
+                {reason ? `${provider.name} (unavailable)` : provider.name}
+              </option>
+            );
+          })}
+        </select>
+        <select
+          key={provider?.name}
+          ref={selectRef}
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          style={{maxWidth: "70%"}}
+          className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
+        >
+          {providerModels.map((modelOption) => (
+            <option key={modelOption.name} value={modelOption.name} title={describeModel(modelOption)}>
               {modelOption.label}
             </option>
           ))}
-      </select>
+        </select>
+        <IconButton
+          icon={refreshing ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:arrows-clockwise'}
+          title="Check the providers again"
+          disabled={refreshing}
+          onClick={refresh}
+        />
+      </div>
+      <div className="flex items-center gap-1.5 mt-1 text-xs text-bolt-elements-textSecondary">
+        <button
+          className={filterButtonClassName(filter.vision)}
+          title="Only show models that accept images"
+          onClick={() => setFilter({ ...filter, vision: !filter.vision })}
+        >
+          Images
+        </button>
+        <button
+          className={filterButtonClassName(filter.toolCalling)}
+          title="Only show models with tool calling"
+          onClick={() => setFilter({ ...filter, toolCalling: !filter.toolCalling })}
+        >
+          Tools
+        </button>
+        <span className="flex-1 min-w-0 truncate text-bolt-elements-textTertiary">
+          {model && describeModel(getModelInfo(provider?.name, model))}
+        </span>
+        <label className="flex items-center gap-1">
+          Sort by
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value)}
+            className="p-0.5 rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary"
+          >
+            {MODEL_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {unavailableReason && (
+        <div className="flex items-center gap-1.5 mt-1 text-xs text-bolt-elements-textTertiary">
+          <div className="i-ph:warning-circle shrink-0" />
+          {provider.name}: {unavailableReason}
+        </div>
+      )}
     </div>
   );
 };
@@ -81,10 +207,42 @@ interface BaseChatProps {
   setModel?: (model: string) => void;
   provider?: ProviderInfo;
   setProvider?: (provider: ProviderInfo) => void;
+  toolCalling?: boolean;
+  setToolCalling?: (enabled: boolean) => void;
+  autoFix?: boolean;
+  setAutoFix?: (enabled: boolean) => void;
+  compareMode?: boolean;
+  setCompareMode?: (enabled: boolean) => void;
+  compareModels?: CompareCandidate[];
+  setCompareModels?: (models: CompareCandidate[]) => void;
+  compareResponses?: CompareResponse[];
+  onPickResponse?: (response: CompareResponse) => void;
+  onDiscardResponses?: () => void;
+  generationSettings?: GenerationSettings;
+  setGenerationSettings?: (settings: GenerationSettings) => void;
+  chatError?: ChatErrorInfo;
+  onRetry?: () => void;
+  onShortenHistory?: () => void;
+  onDismissError?: () => void;
+  failedPatches?: PatchFailure[];
+  onDismissFailedPatches?: () => void;
   handleStop?: () => void;
   sendMessage?: (event: React.UIEvent, messageInput?: string) => void;
   handleInputChange?: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
   enhancePrompt?: () => void;
+  enhancement?: PromptEnhancement;
+  onAcceptEnhancement?: () => void;
+  onRejectEnhancement?: () => void;
+  attachments?: Attachment[];
+  onAddImages?: (files: File[]) => void;
+  onRemoveAttachment?: (index: number) => void;
+  fileMentions?: FileMentions;
+  pinnedFiles?: string[];
+  mentionedFiles?: string[];
+  relevantFiles?: string[];
+  onPinFile?: (path: string) => void;
+  onUnpinFile?: (path: string) => void;
+  onExcludeFile?: (path: string) => void;
 }
 
 export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
@@ -104,56 +262,86 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       setModel,
       provider,
       setProvider,
+      toolCalling = false,
+      setToolCalling,
+      autoFix = false,
+      setAutoFix,
+      compareMode = false,
+      setCompareMode,
+      compareModels = [],
+      setCompareModels,
+      compareResponses = [],
+      onPickResponse,
+      onDiscardResponses,
+      generationSettings = {},
+      setGenerationSettings,
+      chatError,
+      onRetry,
+      onShortenHistory,
+      onDismissError,
+      failedPatches = [],
+      onDismissFailedPatches,
       sendMessage,
       handleInputChange,
       enhancePrompt,
+      enhancement,
+      onAcceptEnhancement,
+      onRejectEnhancement,
+      attachments = [],
+      onAddImages,
+      onRemoveAttachment,
+      fileMentions,
+      pinnedFiles = [],
+      mentionedFiles = [],
+      relevantFiles = [],
+      onPinFile,
+      onUnpinFile,
+      onExcludeFile,
       handleStop,
     },
     ref,
   ) => {
     console.log(provider);
     const TEXTAREA_MAX_HEIGHT = chatStarted ? 400 : 200;
-    const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
     const [modelList, setModelList] = useState(MODEL_LIST);
+    const modelSelectRef = useRef<HTMLSelectElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
 
+    const addImages = (files: FileList | null) => {
+      const images = Array.from(files ?? []).filter((file) => file.type.startsWith('image/'));
 
-    useEffect(() => {
-      // Load API keys from cookies on component mount
-      try {
-        const storedApiKeys = Cookies.get('apiKeys');
-        if (storedApiKeys) {
-          const parsedKeys = JSON.parse(storedApiKeys);
-          if (typeof parsedKeys === 'object' && parsedKeys !== null) {
-            setApiKeys(parsedKeys);
-          }
-        }
-      } catch (error) {
-        console.error('Error loading API keys from cookies:', error);
-        // Clear invalid cookie data
-        Cookies.remove('apiKeys');
+      if (images.length > 0) {
+        onAddImages?.(images);
       }
 
-      initializeModelList().then(modelList => {
-        setModelList(modelList);
+      return images.length > 0;
+    };
+
+
+    useEffect(() => {
+      loadApiKeyStatus().catch((error) => {
+        console.error('Error loading API keys:', error);
       });
+
     }, []);
 
-    const updateApiKey = (provider: string, key: string) => {
-      try {
-        const updatedApiKeys = { ...apiKeys, [provider]: key };
-        setApiKeys(updatedApiKeys);
-        // Save updated API keys to cookies with 30 day expiry and secure settings
-        Cookies.set('apiKeys', JSON.stringify(updatedApiKeys), {
-          expires: 30, // 30 days
-          secure: true, // Only send over HTTPS
-          sameSite: 'strict', // Protect against CSRF
-          path: '/', // Accessible across the site
+    const apiKeyStatus = useStore(apiKeyStatusStore);
+    const providerStatus = useStore(providerStatusStore);
+
+    const refreshModels = (refresh = false) => {
+      return loadModels(refresh)
+        .then((modelList) => setModelList(modelList))
+        .catch((error) => {
+          console.error('Error loading models:', error);
+          toast.error(`Failed to load models: ${error.message}`);
         });
-      } catch (error) {
-        console.error('Error saving API keys to cookies:', error);
-      }
     };
 
+    // whether a provider is configured depends on the stored API keys
+    useEffect(() => {
+      refreshModels();
+    }, [apiKeyStatus]);
+
     return (
       <div
         ref={ref}
@@ -189,7 +377,15 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       className="flex flex-col w-full flex-1 max-w-chat px-4 pb-6 mx-auto z-1"
                       messages={messages}
                       isStreaming={isStreaming}
-                    />
+                    >
+                      {compareResponses.length > 0 && (
+                        <CompareResponses
+                          responses={compareResponses}
+                          onPick={(response) => onPickResponse?.(response)}
+                          onDiscard={() => onDiscardResponses?.()}
+                        />
+                      )}
+                    </Messages>
                   ) : null;
                 }}
               </ClientOnly>
@@ -201,30 +397,96 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   }
                 )}
               >
+                {chatError && (
+                  <ChatErrorAlert
+                    error={chatError}
+                    onRetry={() => onRetry?.()}
+                    onShortenHistory={() => onShortenHistory?.()}
+                    onSwitchModel={() => modelSelectRef.current?.focus()}
+                    onSetApiKey={storeApiKey}
+                    onDismiss={() => onDismissError?.()}
+                  />
+                )}
+                {failedPatches.length > 0 && (
+                  <PatchFailureAlert
+                    failures={failedPatches}
+                    disabled={isStreaming}
+                    onRequestFullFiles={(event) => sendMessage?.(event, getFullFilesPrompt(failedPatches))}
+                    onDismiss={() => onDismissFailedPatches?.()}
+                  />
+                )}
                 <ModelSelector
                   key={provider?.name + ':' + modelList.length}
+                  selectRef={modelSelectRef}
                   model={model}
                   setModel={setModel}
                   modelList={modelList}
                   provider={provider}
                   setProvider={setProvider}
                   providerList={PROVIDER_LIST}
+                  providerStatus={providerStatus}
+                  onRefresh={() => refreshModels(true)}
+                />
+                {compareMode && (
+                  <CompareModelPicker
+                    models={compareModels}
+                    setModels={(models) => setCompareModels?.(models)}
+                    modelList={modelList}
+                  />
+                )}
+                <GenerationSettingsPanel
+                  provider={provider?.name}
+                  model={model}
+                  settings={generationSettings}
+                  setSettings={(settings) => setGenerationSettings?.(settings)}
                 />
                 {provider &&
-                  <APIKeyManager
-                    provider={provider}
-                    apiKey={apiKeys[provider.name] || ''}
-                    setApiKey={(key) => updateApiKey(provider.name, key)}
-                  />}
+                  <APIKeyManager provider={provider} />}
+                {enhancement && (
+                  <EnhancedPromptDiff
+                    enhancement={enhancement}
+                    enhancing={enhancingPrompt}
+                    onAccept={() => onAcceptEnhancement?.()}
+                    onReject={() => onRejectEnhancement?.()}
+                  />
+                )}
+                <FileContextChips
+                  pinned={pinnedFiles}
+                  mentioned={mentionedFiles}
+                  retrieved={relevantFiles}
+                  onPin={(path) => onPinFile?.(path)}
+                  onUnpin={(path) => onUnpinFile?.(path)}
+                  onExclude={(path) => onExcludeFile?.(path)}
+                />
+                {fileMentions && <FileMentionMenu mentions={fileMentions} />}
                 <div
                   className={classNames(
                     'shadow-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 rounded-lg overflow-hidden transition-all',
                   )}
+                  onDragOver={(event) => {
+                    if (event.dataTransfer.types.includes('Files')) {
+                      event.preventDefault();
+                    }
+                  }}
+                  onDrop={(event) => {
+                    if (addImages(event.dataTransfer.files)) {
+                      event.preventDefault();
+                    }
+                  }}
                 >
+                  <ImageAttachments
+                    attachments={attachments}
+                    className="px-4 pt-4"
+                    onRemove={(index) => onRemoveAttachment?.(index)}
+                  />
                   <textarea
                     ref={textareaRef}
                     className={`w-full pl-4 pt-4 pr-16 focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus resize-none text-md text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary bg-bolt-elements-background-depth-2 transition-all`}
                     onKeyDown={(event) => {
+                      if (fileMentions?.handleKeyDown(event)) {
+                        return;
+                      }
+
                       if (event.key === 'Enter') {
                         if (event.shiftKey) {
                           return;
@@ -235,6 +497,13 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                         sendMessage?.(event);
                       }
                     }}
+                    onPaste={(event) => {
+                      // pasted screenshots are attached, pasted text is inserted as usual
+                      if (addImages(event.clipboardData.files)) {
+                        event.preventDefault();
+                      }
+                    }}
+                    onSelect={(event) => fileMentions?.updateCursor(event.currentTarget.selectionStart)}
                     value={input}
                     onChange={(event) => {
                       handleInputChange?.(event);
@@ -286,8 +555,66 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                           </>
                         )}
                       </IconButton>
+                      <ClientOnly>{() => <EnhancerPresetPicker />}</ClientOnly>
+                      <IconButton title="Attach images" onClick={() => imageInputRef.current?.click()}>
+                        <div className="i-ph:image text-xl"></div>
+                      </IconButton>
+                      <input
+                        ref={imageInputRef}
+                        type="file"
+                        accept={IMAGE_CONTENT_TYPES.join(',')}
+                        multiple
+                        hidden
+                        onChange={(event) => {
+                          addImages(event.target.files);
+
+                          // lets the same image be selected again after removing it
+                          event.target.value = '';
+                        }}
+                      />
+                      {getModelInfo(provider?.name, model).toolCalling && (
+                        <IconButton
+                          title={toolCalling ? 'Tool calling enabled' : 'Use tool calling instead of artifacts'}
+                          className={classNames('transition-all', {
+                            'text-bolt-elements-item-contentAccent! enabled:hover:bg-bolt-elements-item-backgroundAccent!':
+                              toolCalling,
+                          })}
+                          onClick={() => setToolCalling?.(!toolCalling)}
+                        >
+                          <div className="i-ph:wrench text-xl"></div>
+                        </IconButton>
+                      )}
+                      <IconButton
+                        title={
+                          autoFix
+                            ? `Failed commands are sent to the model to fix them, up to ${MAX_AUTO_FIX_ATTEMPTS} times in a row`
+                            : 'Automatically ask the model to fix failed commands'
+                        }
+                        className={classNames('transition-all', {
+                          'text-bolt-elements-item-contentAccent! enabled:hover:bg-bolt-elements-item-backgroundAccent!':
+                            autoFix,
+                        })}
+                        onClick={() => setAutoFix?.(!autoFix)}
+                      >
+                        <div className="i-ph:bandaids text-xl"></div>
+                      </IconButton>
+                      <ClientOnly>{() => <CommandPolicyPicker />}</ClientOnly>
+                      <IconButton
+                        title={compareMode ? 'Compare mode enabled' : 'Compare the responses of several models'}
+                        className={classNames('transition-all', {
+                          'text-bolt-elements-item-contentAccent! enabled:hover:bg-bolt-elements-item-backgroundAccent!':
+                            compareMode,
+                        })}
+                        onClick={() => setCompareMode?.(!compareMode)}
+                      >
+                        <div className="i-ph:columns text-xl"></div>
+                      </IconButton>
                     </div>
-                    {input.length > 3 ? (
+                    {attachments.length > 0 && !getModelInfo(provider?.name, model).vision ? (
+                      <div className="text-xs text-bolt-elements-textTertiary">
+                        {model} doesn't accept images, switch to a model with vision support
+                      </div>
+                    ) : input.length > 3 ? (
                       <div className="text-xs text-bolt-elements-textTertiary">
                         Use <kbd className="kdb px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-2">Shift</kbd> +{' '}
                         <kbd className="kdb px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-2">Return</kbd> for
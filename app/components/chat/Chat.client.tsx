@@ -1,22 +1,42 @@
 // @ts-nocheck
 // Preventing TS checks with files presented in the video for a better presentation.
 import { useStore } from '@nanostores/react';
-import type { Message } from 'ai';
+import { generateId, type Attachment, type Message } from 'ai';
 import { useChat } from 'ai/react';
 import { useAnimate } from 'framer-motion';
-import { memo, useEffect, useRef, useState } from 'react';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
-import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
+import {
+  useCompare,
+  useFileMentions,
+  useMessageParser,
+  usePromptEnhancer,
+  useRelevantFiles,
+  useShortcuts,
+  useSnapScroll,
+} from '~/lib/hooks';
 import { useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
+import { commandDecisionsStore } from '~/lib/stores/command-policy';
+import { getChatRules } from '~/lib/stores/rules';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { getFixPrompt, MAX_AUTO_FIX_ATTEMPTS } from '~/utils/action-failures';
+import { MAX_IMAGE_ATTACHMENTS, readImageAttachment } from '~/utils/attachments';
+import { createPickedMessage } from '~/utils/compare';
 import { fileModificationsToHTML } from '~/utils/diff';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
+import { extractMentions, fileContextRegex, fileContextToHTML } from '~/utils/file-context';
+import { parseChatError } from '~/utils/errors';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
+import { getModelInfo } from '~/utils/models';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
 import Cookies from 'js-cookie';
-import type { ProviderInfo } from '~/utils/types';
+import type { RequestAnnotation } from '~/types/annotations';
+import type { CompareCandidate, CompareResponse } from '~/types/compare';
+import type { ChatErrorInfo } from '~/types/errors';
+import type { GenerationSettings } from '~/types/generation';
+import type { ProviderInfo } from '~/types/model';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -25,14 +45,27 @@ const toastAnimation = cssTransition({
 
 const logger = createScopedLogger('Chat');
 
+// messages kept when the user shortens the history after the context window overflowed
+const SHORTENED_HISTORY_MESSAGES = 4;
+
+const modificationsRegex = new RegExp(`^<${MODIFICATIONS_TAG_NAME}>[\\s\\S]*?<\\/${MODIFICATIONS_TAG_NAME}>\\s*`);
+
 export function Chat() {
   renderLogger.trace('Chat');
 
-  const { ready, initialMessages, storeMessageHistory } = useChatHistory();
+  const { ready, initialMessages, initialGenerationSettings, initialPinnedFiles, storeMessageHistory } =
+    useChatHistory();
 
   return (
     <>
-      {ready && <ChatImpl initialMessages={initialMessages} storeMessageHistory={storeMessageHistory} />}
+      {ready && (
+        <ChatImpl
+          initialMessages={initialMessages}
+          initialGenerationSettings={initialGenerationSettings}
+          initialPinnedFiles={initialPinnedFiles}
+          storeMessageHistory={storeMessageHistory}
+        />
+      )}
       <ToastContainer
         closeButton={({ closeToast }) => {
           return (
@@ -66,10 +99,18 @@ export function Chat() {
 
 interface ChatProps {
   initialMessages: Message[];
-  storeMessageHistory: (messages: Message[]) => Promise<void>;
+  initialGenerationSettings: GenerationSettings;
+  initialPinnedFiles: string[];
+  storeMessageHistory: (
+    messages: Message[],
+    generationSettings?: GenerationSettings,
+    pinnedFiles?: string[],
+  ) => Promise<void>;
 }
 
-export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProps) => {
+export const ChatImpl = memo((props: ChatProps) => {
+  const { initialMessages, initialGenerationSettings, initialPinnedFiles, storeMessageHistory } = props;
+
   useShortcuts();
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -88,25 +129,67 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
 
   const [animationScope, animate] = useAnimate();
 
-  const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+  const [toolCalling, setToolCalling] = useState(() => Cookies.get('toolCalling') === 'true');
+  const [autoFix, setAutoFix] = useState(() => Cookies.get('autoFix') === 'true');
+
+  // fixes sent since the user's last message
+  const autoFixAttempts = useRef(0);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(initialGenerationSettings);
+
+  const [chatError, setChatError] = useState<ChatErrorInfo>();
+
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<CompareCandidate[]>([]);
 
-  const { messages, isLoading, input, handleInputChange, setInput, stop, append } = useChat({
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+
+  const [pinnedFiles, setPinnedFiles] = useState<string[]>(initialPinnedFiles);
+  const files = useStore(workbenchStore.files);
+  const failedPatches = useStore(workbenchStore.failedPatches);
+  const commandFailure = useStore(workbenchStore.commandFailure);
+  const chatRequest = useStore(workbenchStore.chatRequest);
+
+  const { messages, isLoading, input, handleInputChange, setInput, stop, append, reload, setMessages } = useChat({
     api: '/api/chat',
     body: {
-      apiKeys
+      toolCalling,
     },
     onError: (error) => {
       logger.error('Request failed\n\n', error);
-      toast.error('There was an error processing your request: ' + (error.message ? error.message : "No details were returned"));
+      setChatError(parseChatError(error));
     },
+    // keeps the prompt of a failed request, so it can be retried
+    keepLastMessageOnError: true,
     onFinish: () => {
       logger.debug('Finished streaming');
     },
     initialMessages,
   });
 
-  const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
+  const {
+    enhancingPrompt,
+    promptEnhanced,
+    enhancement,
+    enhancePrompt,
+    acceptEnhancement,
+    rejectEnhancement,
+    resetEnhancer,
+  } = usePromptEnhancer();
   const { parsedMessages, parseMessages } = useMessageParser();
+  const { responses: compareResponses, comparing, compare, stop: stopCompare, reset: resetCompare } = useCompare();
+  const fileMentions = useFileMentions(textareaRef, input, setInput);
+
+  const mentionedFiles = useMemo(() => extractMentions(input, files), [input, files]);
+
+  // files the user removed from the automatically selected ones, until the message is sent
+  const [excludedFiles, setExcludedFiles] = useState<string[]>([]);
+
+  const retrievalExclude = useMemo(
+    () => [...pinnedFiles, ...mentionedFiles, ...excludedFiles],
+    [pinnedFiles, mentionedFiles, excludedFiles],
+  );
+
+  const relevantFiles = useRelevantFiles(input, retrievalExclude);
 
   const TEXTAREA_MAX_HEIGHT = chatStarted ? 400 : 200;
 
@@ -118,10 +201,21 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
     parseMessages(messages, isLoading);
 
     if (messages.length > initialMessages.length) {
-      storeMessageHistory(messages).catch((error) => toast.error(error.message));
+      storeMessageHistory(messages, generationSettings, pinnedFiles).catch((error) => toast.error(error.message));
     }
   }, [messages, isLoading, parseMessages]);
 
+  useEffect(
+    () =>
+      // commands are approved or skipped while the messages don't change, e.g. in a loaded chat
+      commandDecisionsStore.listen(() => {
+        if (messages.length > 0) {
+          storeMessageHistory(messages, generationSettings, pinnedFiles).catch((error) => toast.error(error.message));
+        }
+      }),
+    [messages, generationSettings, pinnedFiles],
+  );
+
   const scrollTextArea = () => {
     const textarea = textareaRef.current;
 
@@ -132,8 +226,13 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
 
   const abort = () => {
     stop();
+    stopCompare();
     chatStore.setKey('aborted', true);
-    workbenchStore.abortAllActions();
+
+    workbenchStore.abortAllActions().catch((error) => {
+      logger.error('Failed to abort the actions\n\n', error);
+      toast.error('Failed to stop the running actions');
+    });
   };
 
   useEffect(() => {
@@ -164,10 +263,99 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
     setChatStarted(true);
   };
 
-  const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
+  const getRequestOptions = (extraBody?: Record<string, unknown>) => {
+    // lets the model inspect the project with the file tools
+    const files = workbenchStore.getFilesSnapshot();
+    const rules = getChatRules(workbenchStore.files.get());
+
+    return {
+      body: {
+        provider: provider.name,
+        model,
+        generationSettings,
+        ...(Object.keys(files).length > 0 ? { files } : {}),
+        rules,
+        ...extraBody,
+      },
+    };
+  };
+
+  /**
+   * Compared responses are plain text artifacts, so the file tools and tool calling are turned off.
+   */
+  const getCompareBody = () => {
+    const { files, ...body } = getRequestOptions().body;
+
+    return { ...body, toolCalling: false };
+  };
+
+  const pickResponse = (response: CompareResponse) => {
+    // adding the message lets the message parser apply its artifact like any other response
+    setMessages([...messages, createPickedMessage(response, compareResponses)]);
+    resetCompare();
+  };
+
+  const discardResponses = () => {
+    resetCompare();
+
+    const lastMessage = messages.at(-1);
+
+    // the prompt goes back into the input so it can be sent again
+    if (lastMessage?.role === 'user') {
+      setMessages(messages.slice(0, -1));
+      setInput(lastMessage.content.replace(modificationsRegex, '').replace(fileContextRegex, ''));
+      setAttachments(lastMessage.experimental_attachments ?? []);
+    }
+  };
+
+  const addImages = async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(readImageAttachment));
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        toast.error(result.reason.message);
+      }
+    }
+
+    const images = results.filter((result) => result.status === 'fulfilled').map(({ value }) => value);
+
+    setAttachments((attachments) => {
+      if (attachments.length + images.length > MAX_IMAGE_ATTACHMENTS) {
+        toast.error(`Only ${MAX_IMAGE_ATTACHMENTS} images can be attached to a message`);
+      }
+
+      return [...attachments, ...images].slice(0, MAX_IMAGE_ATTACHMENTS);
+    });
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments((attachments) => attachments.filter((_, i) => i !== index));
+  };
+
+  const retry = (extraBody?: Record<string, unknown>) => {
+    setChatError(undefined);
+    chatStore.setKey('aborted', false);
+
+    reload(getRequestOptions(extraBody));
+  };
+
+  const sendMessage = async (_event: React.UIEvent | undefined, messageInput?: string, isAutoFix = false) => {
     const _input = messageInput || input;
 
-    if (_input.length === 0 || isLoading) {
+    // messages that aren't typed by the user, like fix requests, leave the draft and its images alone
+    const _attachments = messageInput ? [] : attachments;
+
+    if (_input.length === 0 || isLoading || comparing) {
+      return;
+    }
+
+    if (compareResponses.length > 0) {
+      toast.info('Pick one of the compared responses or discard them first');
+      return;
+    }
+
+    if (_attachments.length > 0 && !getModelInfo(provider.name, model).vision) {
+      toast.error(`${model} doesn't accept images, switch to a model with vision support`);
       return;
     }
 
@@ -182,52 +370,112 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
 
     const fileModifications = workbenchStore.getFileModifcations();
 
+    const requestOptions = getRequestOptions();
+
+    // records the selection with the message, the request itself only uses the body
+    const requestAnnotation: RequestAnnotation = { type: 'request', provider: provider.name, model };
+
     chatStore.setKey('aborted', false);
+    setChatError(undefined);
+    workbenchStore.failedPatches.set([]);
+    workbenchStore.commandFailure.set(undefined);
+    workbenchStore.chatRequest.set(undefined);
 
-    runAnimation();
+    if (!isAutoFix) {
+      autoFixAttempts.current = 0;
+    }
 
-    if (fileModifications !== undefined) {
-      const diff = fileModificationsToHTML(fileModifications);
+    runAnimation();
 
-      /**
-       * If we have file modifications we append a new user message manually since we have to prefix
-       * the user input with the file modifications and we don't want the new user input to appear
-       * in the prompt. Using `append` is almost the same as `handleSubmit` except that we have to
-       * manually reset the input and we'd have to manually pass in file attachments. However, those
-       * aren't relevant here.
-       */
-      append({ role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${diff}\n\n${_input}` });
+    /**
+     * If we have file modifications we append a new user message manually since we have to prefix
+     * the user input with the file modifications and the referenced files and we don't want them to
+     * appear in the prompt. Using `append` is almost the same as `handleSubmit` except that we have
+     * to manually reset the input and pass in the image attachments.
+     */
+    const currentFiles = workbenchStore.files.get();
+    const mentioned = extractMentions(_input, currentFiles);
+    const retrieved = workbenchStore.getRelevantFiles(_input, [...pinnedFiles, ...mentioned, ...excludedFiles]);
+    const fileContext = fileContextToHTML(currentFiles, { mentioned, pinned: pinnedFiles, retrieved });
+
+    const content = [fileModifications && fileModificationsToHTML(fileModifications), fileContext, _input]
+      .filter(Boolean)
+      .join('\n\n');
+    const userMessage = { id: generateId(), role: 'user', content, annotations: [requestAnnotation] };
+    const imageAttachments = _attachments.length > 0 ? _attachments : undefined;
+
+    if (compareMode && compareModels.length > 0) {
+      const newMessages = [...messages, { ...userMessage, experimental_attachments: imageAttachments }];
+
+      setMessages(newMessages);
+      compare(newMessages, [{ provider: provider.name, model }, ...compareModels], getCompareBody());
+    } else {
+      // `append` replaces the attachments of the message with the ones passed in the options
+      append(userMessage, { ...requestOptions, experimental_attachments: imageAttachments });
+    }
 
+    if (fileModifications !== undefined) {
       /**
        * After sending a new message we reset all modifications since the model
        * should now be aware of all the changes.
        */
       workbenchStore.resetAllFileModifications();
-    } else {
-      append({ role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${_input}` });
     }
 
-    setInput('');
+    if (!messageInput) {
+      setInput('');
+      setAttachments([]);
+      setExcludedFiles([]);
+    }
 
     resetEnhancer();
 
     textareaRef.current?.blur();
   };
 
-  const [messageRef, scrollRef] = useSnapScroll();
-
   useEffect(() => {
-    const storedApiKeys = Cookies.get('apiKeys');
-    if (storedApiKeys) {
-      setApiKeys(JSON.parse(storedApiKeys));
+    if (isLoading || comparing) {
+      return;
     }
-  }, []);
+
+    if (chatRequest) {
+      sendMessage(undefined, chatRequest);
+      return;
+    }
+
+    if (!commandFailure) {
+      return;
+    }
+
+    // a response the user stopped shouldn't be followed by another one
+    if (!autoFix || chatStore.get().aborted || autoFixAttempts.current >= MAX_AUTO_FIX_ATTEMPTS) {
+      workbenchStore.commandFailure.set(undefined);
+      return;
+    }
+
+    autoFixAttempts.current++;
+
+    toast.info(`Asking ${model} to fix the failed command (${autoFixAttempts.current}/${MAX_AUTO_FIX_ATTEMPTS})`);
+    sendMessage(undefined, getFixPrompt(commandFailure, files), true);
+  }, [chatRequest, commandFailure, isLoading, comparing]);
+
+  const [messageRef, scrollRef] = useSnapScroll();
 
   const handleModelChange = (newModel: string) => {
     setModel(newModel);
     Cookies.set('selectedModel', newModel, { expires: 30 });
   };
 
+  const handleToolCallingChange = (enabled: boolean) => {
+    setToolCalling(enabled);
+    Cookies.set('toolCalling', String(enabled), { expires: 30 });
+  };
+
+  const handleAutoFixChange = (enabled: boolean) => {
+    setAutoFix(enabled);
+    Cookies.set('autoFix', String(enabled), { expires: 30 });
+  };
+
   const handleProviderChange = (newProvider: ProviderInfo) => {
     setProvider(newProvider);
     Cookies.set('selectedProvider', newProvider.name, { expires: 30 });
@@ -240,7 +488,7 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
       input={input}
       showChat={showChat}
       chatStarted={chatStarted}
-      isStreaming={isLoading}
+      isStreaming={isLoading || comparing}
       enhancingPrompt={enhancingPrompt}
       promptEnhanced={promptEnhanced}
       sendMessage={sendMessage}
@@ -248,6 +496,25 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
       setModel={handleModelChange}
       provider={provider}
       setProvider={handleProviderChange}
+      toolCalling={toolCalling}
+      setToolCalling={handleToolCallingChange}
+      autoFix={autoFix}
+      setAutoFix={handleAutoFixChange}
+      compareMode={compareMode}
+      setCompareMode={setCompareMode}
+      compareModels={compareModels}
+      setCompareModels={setCompareModels}
+      compareResponses={compareResponses}
+      onPickResponse={pickResponse}
+      onDiscardResponses={discardResponses}
+      generationSettings={generationSettings}
+      setGenerationSettings={setGenerationSettings}
+      chatError={chatError}
+      onRetry={() => retry()}
+      onShortenHistory={() => retry({ maxHistoryMessages: SHORTENED_HISTORY_MESSAGES })}
+      onDismissError={() => setChatError(undefined)}
+      failedPatches={failedPatches}
+      onDismissFailedPatches={() => workbenchStore.failedPatches.set([])}
       messageRef={messageRef}
       scrollRef={scrollRef}
       handleInputChange={handleInputChange}
@@ -262,18 +529,23 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
           content: parsedMessages[i] || '',
         };
       })}
-      enhancePrompt={() => {
-        enhancePrompt(
-          input,
-          (input) => {
-            setInput(input);
-            scrollTextArea();
-          },
-          model,
-          provider,
-          apiKeys
-        );
+      enhancement={enhancement}
+      enhancePrompt={() => enhancePrompt(input, model, provider.name)}
+      onAcceptEnhancement={() => {
+        acceptEnhancement(setInput);
+        setTimeout(scrollTextArea);
       }}
+      onRejectEnhancement={rejectEnhancement}
+      attachments={attachments}
+      onAddImages={addImages}
+      onRemoveAttachment={removeAttachment}
+      fileMentions={fileMentions}
+      pinnedFiles={pinnedFiles}
+      mentionedFiles={mentionedFiles}
+      relevantFiles={relevantFiles}
+      onPinFile={(path) => setPinnedFiles((pinnedFiles) => [...new Set([...pinnedFiles, path])])}
+      onUnpinFile={(path) => setPinnedFiles((pinnedFiles) => pinnedFiles.filter((pinned) => pinned !== path))}
+      onExcludeFile={(path) => setExcludedFiles((excludedFiles) => [...excludedFiles, path])}
     />
   );
 });
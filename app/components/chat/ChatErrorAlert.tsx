@@ -0,0 +1,93 @@
+import { memo, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import type { ChatErrorInfo } from '~/types/errors';
+import { getChatErrorTitle } from '~/utils/errors';
+
+interface ChatErrorAlertProps {
+  error: ChatErrorInfo;
+  onRetry: () => void;
+  onShortenHistory: () => void;
+  onSwitchModel: () => void;
+  onSetApiKey: (provider: string, key: string) => Promise<void>;
+  onDismiss: () => void;
+}
+
+const actionClassName =
+  'px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50';
+
+export const ChatErrorAlert = memo(
+  ({ error, onRetry, onShortenHistory, onSwitchModel, onSetApiKey, onDismiss }: ChatErrorAlertProps) => {
+    const [apiKey, setApiKey] = useState('');
+    const [retryIn, setRetryIn] = useState(error.retryAfter ?? 0);
+
+    useEffect(() => {
+      setRetryIn(error.retryAfter ?? 0);
+
+      if (!error.retryAfter) {
+        return undefined;
+      }
+
+      const interval = setInterval(() => {
+        setRetryIn((seconds) => Math.max(0, seconds - 1));
+      }, 1000);
+
+      return () => clearInterval(interval);
+    }, [error]);
+
+    const { code, provider } = error;
+
+    return (
+      <div className="mb-2 p-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm">
+        <div className="flex items-start gap-2">
+          <div className="i-ph:warning-circle-bold text-bolt-elements-icon-error text-lg shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-bolt-elements-textPrimary font-medium">{getChatErrorTitle(code)}</div>
+            <div className="text-bolt-elements-textSecondary break-words">{error.message}</div>
+          </div>
+          <IconButton icon="i-ph:x" size="md" title="Dismiss" onClick={onDismiss} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-2 pl-7">
+          {code === 'auth' && provider && (
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+
+                if (apiKey.trim()) {
+                  onSetApiKey(provider, apiKey.trim())
+                    .then(onRetry)
+                    .catch((error) => toast.error(`Failed to store the API key: ${error.message}`));
+                }
+              }}
+            >
+              <input
+                type="password"
+                value={apiKey}
+                placeholder={`${provider} API key`}
+                onChange={(event) => setApiKey(event.target.value)}
+                className="p-1 text-xs rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
+              />
+              <button type="submit" className={actionClassName} disabled={!apiKey.trim()}>
+                Add API key and retry
+              </button>
+            </form>
+          )}
+          {code === 'context_overflow' && (
+            <button className={actionClassName} onClick={onShortenHistory}>
+              Shorten history and retry
+            </button>
+          )}
+          {code !== 'bad_request' && (
+            <button className={actionClassName} onClick={onSwitchModel}>
+              Switch model
+            </button>
+          )}
+          <button className={actionClassName} onClick={onRetry} disabled={retryIn > 0}>
+            {retryIn > 0 ? `Retry in ${retryIn}s` : 'Retry'}
+          </button>
+        </div>
+      </div>
+    );
+  },
+);
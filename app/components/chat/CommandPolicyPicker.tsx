@@ -0,0 +1,85 @@
+import { useStore } from '@nanostores/react';
+import { memo, useState } from 'react';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { IconButton } from '~/components/ui/IconButton';
+import { commandPolicyStore, setCommandPolicy } from '~/lib/stores/command-policy';
+import type { CommandPolicyMode } from '~/types/command-policy';
+import { classNames } from '~/utils/classNames';
+import { commandPolicyModeLabels, parseCommandPatterns } from '~/utils/command-policy';
+
+const inputClassName =
+  'w-full px-3 py-2 bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor rounded-md text-bolt-elements-textPrimary placeholder:text-bolt-elements-textTertiary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus';
+
+export const CommandPolicyPicker = memo(() => {
+  const policy = useStore(commandPolicyStore);
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <>
+      <select
+        value={policy.mode}
+        title="How the commands of the model are run"
+        onChange={(event) => setCommandPolicy({ mode: event.target.value as CommandPolicyMode })}
+        className="max-w-32 p-1 rounded-md text-xs border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textSecondary"
+      >
+        {Object.entries(commandPolicyModeLabels).map(([mode, label]) => (
+          <option key={mode} value={mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {policy.mode === 'policy' && (
+        <IconButton title="Edit the allow and deny lists" icon="i-ph:list-checks" onClick={() => setEditing(true)} />
+      )}
+      <DialogRoot open={editing}>
+        <Dialog onBackdrop={() => setEditing(false)} onClose={() => setEditing(false)}>
+          <DialogTitle>Command Policy</DialogTitle>
+          <DialogDescription asChild>
+            <form
+              className="space-y-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+
+                const form = event.target as HTMLFormElement;
+                const allow = (form.elements.namedItem('allow') as HTMLTextAreaElement).value;
+                const deny = (form.elements.namedItem('deny') as HTMLTextAreaElement).value;
+
+                setCommandPolicy({ allow: parseCommandPatterns(allow), deny: parseCommandPatterns(deny) });
+                setEditing(false);
+              }}
+            >
+              <p>
+                One command per line, <code>*</code> matches any text and commands may have more arguments. Commands
+                that are on neither list need your approval, and so do pipes, redirects and subshells that an allowed
+                command doesn't name.
+              </p>
+              <label className="block text-bolt-elements-textPrimary" htmlFor="command-policy-allow">
+                Run without asking
+              </label>
+              <textarea
+                id="command-policy-allow"
+                name="allow"
+                rows={6}
+                defaultValue={policy.allow.join('\n')}
+                className={classNames(inputClassName, 'font-mono resize-none')}
+              />
+              <label className="block text-bolt-elements-textPrimary" htmlFor="command-policy-deny">
+                Never run
+              </label>
+              <textarea
+                id="command-policy-deny"
+                name="deny"
+                rows={4}
+                defaultValue={policy.deny.join('\n')}
+                className={classNames(inputClassName, 'font-mono resize-none')}
+              />
+              <div className="flex justify-end">
+                <DialogButton type="primary">Save</DialogButton>
+              </div>
+            </form>
+          </DialogDescription>
+        </Dialog>
+      </DialogRoot>
+    </>
+  );
+});
@@ -0,0 +1,61 @@
+import { memo } from 'react';
+import type { CompareCandidate } from '~/types/compare';
+import type { ModelInfo } from '~/utils/types';
+
+interface CompareModelPickerProps {
+  /**
+   * Models that answer in addition to the selected one.
+   */
+  models: CompareCandidate[];
+  setModels: (models: CompareCandidate[]) => void;
+  modelList: ModelInfo[];
+}
+
+export const CompareModelPicker = memo(({ models, setModels, modelList }: CompareModelPickerProps) => {
+  const isSelected = (model: ModelInfo) => {
+    return models.some((m) => m.provider === model.provider && m.model === model.name);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-2 text-xs text-bolt-elements-textSecondary">
+      Compare with
+      {models.map((candidate) => (
+        <span
+          key={`${candidate.provider}/${candidate.model}`}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+          title={candidate.provider}
+        >
+          {candidate.model}
+          <button
+            className="i-ph:x bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+            title="Remove"
+            onClick={() => setModels(models.filter((m) => m !== candidate))}
+          />
+        </span>
+      ))}
+      <select
+        value=""
+        onChange={(event) => {
+          // model names can contain colons (e.g. Ollama tags), so options refer to the model by index
+          const model = modelList[Number(event.target.value)];
+
+          setModels([...models, { provider: model.provider, model: model.name }]);
+        }}
+        className="p-0.5 rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary"
+      >
+        <option value="" disabled>
+          Add a model…
+        </option>
+        {modelList.map(
+          (model, index) =>
+            model.name &&
+            !isSelected(model) && (
+              <option key={`${model.provider}/${model.name}`} value={index}>
+                {model.label} ({model.provider})
+              </option>
+            ),
+        )}
+      </select>
+    </div>
+  );
+});
@@ -0,0 +1,79 @@
+import { memo } from 'react';
+import type { CompareResponse } from '~/types/compare';
+import { classNames } from '~/utils/classNames';
+import { summarizeArtifacts } from '~/utils/compare';
+import { getChatErrorTitle } from '~/utils/errors';
+import { formatCost, formatTokens, getUsageAnnotation } from '~/utils/usage';
+import { Markdown } from './Markdown';
+
+interface CompareResponsesProps {
+  responses: CompareResponse[];
+  onPick: (response: CompareResponse) => void;
+  onDiscard: () => void;
+}
+
+const buttonClassName =
+  'px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50';
+
+export const CompareResponses = memo(({ responses, onPick, onDiscard }: CompareResponsesProps) => {
+  const comparing = responses.some(({ status }) => status === 'streaming');
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-2 text-sm text-bolt-elements-textSecondary">
+        <div className="i-ph:columns" />
+        <span className="flex-1">
+          {comparing ? 'Comparing responses…' : 'Pick the response to apply to the project'}
+        </span>
+        <button className={buttonClassName} onClick={onDiscard}>
+          Discard all
+        </button>
+      </div>
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${responses.length}, minmax(0, 1fr))` }}>
+        {responses.map((response) => (
+          <CompareColumn key={response.id} response={response} onPick={() => onPick(response)} />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+function CompareColumn({ response, onPick }: { response: CompareResponse; onPick: () => void }) {
+  const usage = getUsageAnnotation(response);
+
+  return (
+    <div className="flex flex-col min-w-0 p-3 rounded-lg bg-bolt-elements-messages-background">
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <span className="flex-1 truncate text-bolt-elements-textPrimary font-medium" title={response.provider}>
+          {response.model}
+        </span>
+        {response.status === 'streaming' && <div className="i-svg-spinners:90-ring-with-bg" />}
+      </div>
+      <div className="flex-1 max-h-[60vh] overflow-y-auto text-sm">
+        {response.status === 'error' && response.error ? (
+          <div className="text-bolt-elements-textSecondary">
+            <div className="text-bolt-elements-textPrimary">{getChatErrorTitle(response.error.code)}</div>
+            {response.error.message}
+          </div>
+        ) : (
+          <Markdown>{summarizeArtifacts(response.content)}</Markdown>
+        )}
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        {usage && (
+          <span className="flex-1 text-xs text-bolt-elements-textTertiary">
+            {formatTokens(usage.completionTokens)} out · {(usage.latencyMs / 1000).toFixed(1)}s
+            {usage.cost !== undefined && ` · ${formatCost(usage.cost)}`}
+          </span>
+        )}
+        <button
+          className={classNames(buttonClassName, 'ml-auto')}
+          disabled={response.status !== 'done' || !response.content}
+          onClick={onPick}
+        >
+          Use this response
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { diffWords } from 'diff';
+import { memo, useMemo } from 'react';
+import type { PromptEnhancement } from '~/lib/hooks/usePromptEnhancer';
+import { classNames } from '~/utils/classNames';
+
+interface EnhancedPromptDiffProps {
+  enhancement: PromptEnhancement;
+  enhancing: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const buttonClassName =
+  'px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50';
+
+export const EnhancedPromptDiff = memo(({ enhancement, enhancing, onAccept, onReject }: EnhancedPromptDiffProps) => {
+  // the diff is meaningless while most of the enhanced prompt is still missing
+  const changes = useMemo(
+    () => (enhancing ? [] : diffWords(enhancement.original, enhancement.enhanced)),
+    [enhancement, enhancing],
+  );
+
+  return (
+    <div className="mb-2 p-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm">
+      <div className="flex items-center gap-2 mb-2 text-bolt-elements-textSecondary">
+        <div className="i-bolt:stars" />
+        <span className="flex-1">{enhancing ? 'Enhancing prompt…' : 'Enhanced prompt'}</span>
+        <button className={buttonClassName} onClick={onReject}>
+          {enhancing ? 'Cancel' : 'Reject'}
+        </button>
+        <button
+          className={classNames(buttonClassName, 'text-bolt-elements-item-contentAccent')}
+          disabled={enhancing || !enhancement.enhanced}
+          onClick={onAccept}
+        >
+          Accept
+        </button>
+      </div>
+      <div className="max-h-60 overflow-y-auto whitespace-pre-wrap break-words text-bolt-elements-textPrimary">
+        {enhancing
+          ? enhancement.enhanced
+          : changes.map((change, index) => (
+              <span
+                key={index}
+                className={classNames({
+                  'bg-green-500/20 text-bolt-elements-textPrimary': !!change.added,
+                  'bg-red-500/20 line-through text-bolt-elements-textTertiary': !!change.removed,
+                })}
+              >
+                {change.value}
+              </span>
+            ))}
+      </div>
+    </div>
+  );
+});
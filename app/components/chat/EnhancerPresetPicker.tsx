@@ -0,0 +1,103 @@
+import { useStore } from '@nanostores/react';
+import { memo, useState } from 'react';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { IconButton } from '~/components/ui/IconButton';
+import {
+  addEnhancerPreset,
+  customEnhancerPresetsStore,
+  enhancerSettingsStore,
+  removeEnhancerPreset,
+  setEnhancerSettings,
+} from '~/lib/stores/enhancer';
+import { classNames } from '~/utils/classNames';
+import { BUILT_IN_ENHANCER_PRESETS, MAX_ENHANCER_INSTRUCTIONS_LENGTH } from '~/utils/enhancer';
+
+const inputClassName =
+  'w-full px-3 py-2 bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor rounded-md text-bolt-elements-textPrimary placeholder:text-bolt-elements-textTertiary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus';
+
+export const EnhancerPresetPicker = memo(() => {
+  const settings = useStore(enhancerSettingsStore);
+  const customPresets = useStore(customEnhancerPresetsStore);
+  const [managing, setManaging] = useState(false);
+
+  return (
+    <>
+      <select
+        value={settings.presetId}
+        title="How the prompt gets enhanced"
+        onChange={(event) => setEnhancerSettings({ presetId: event.target.value })}
+        className="max-w-32 p-1 rounded-md text-xs border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textSecondary"
+      >
+        {[...BUILT_IN_ENHANCER_PRESETS, ...customPresets].map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+      <IconButton title="Manage enhancer presets" icon="i-ph:sliders-horizontal" onClick={() => setManaging(true)} />
+      <IconButton
+        title={
+          settings.includeProject
+            ? 'The file tree and package.json are sent to the enhancer'
+            : 'Send the file tree and package.json to the enhancer'
+        }
+        className={classNames('transition-all', {
+          'text-bolt-elements-item-contentAccent! enabled:hover:bg-bolt-elements-item-backgroundAccent!':
+            settings.includeProject,
+        })}
+        icon="i-ph:tree-structure"
+        onClick={() => setEnhancerSettings({ includeProject: !settings.includeProject })}
+      />
+      <DialogRoot open={managing}>
+        <Dialog onBackdrop={() => setManaging(false)} onClose={() => setManaging(false)}>
+          <DialogTitle>Enhancer Presets</DialogTitle>
+          <DialogDescription asChild>
+            <div className="space-y-4">
+              {customPresets.length > 0 && (
+                <ul className="space-y-1">
+                  {customPresets.map((preset) => (
+                    <li key={preset.id} className="flex items-center gap-2">
+                      <span className="flex-1 truncate text-bolt-elements-textPrimary" title={preset.instructions}>
+                        {preset.name}
+                      </span>
+                      <IconButton icon="i-ph:trash" title="Delete" onClick={() => removeEnhancerPreset(preset.id)} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form
+                className="space-y-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+
+                  const form = event.target as HTMLFormElement;
+                  const name = (form.elements.namedItem('name') as HTMLInputElement).value.trim();
+                  const instructions = (form.elements.namedItem('instructions') as HTMLTextAreaElement).value.trim();
+
+                  if (!name || !instructions || instructions.length > MAX_ENHANCER_INSTRUCTIONS_LENGTH) {
+                    return;
+                  }
+
+                  setEnhancerSettings({ presetId: addEnhancerPreset(name, instructions).id });
+                  form.reset();
+                }}
+              >
+                <input name="name" placeholder="Name, e.g. API endpoint" className={inputClassName} />
+                <textarea
+                  name="instructions"
+                  rows={4}
+                  maxLength={MAX_ENHANCER_INSTRUCTIONS_LENGTH}
+                  placeholder="How to rewrite the prompt, e.g. describe the route, its parameters and the response format"
+                  className={classNames(inputClassName, 'resize-none')}
+                />
+                <div className="flex justify-end">
+                  <DialogButton type="primary">Add preset</DialogButton>
+                </div>
+              </form>
+            </div>
+          </DialogDescription>
+        </Dialog>
+      </DialogRoot>
+    </>
+  );
+});
@@ -0,0 +1,70 @@
+import { memo } from 'react';
+import { classNames } from '~/utils/classNames';
+
+interface FileContextChipsProps {
+  pinned: string[];
+  mentioned: string[];
+  retrieved: string[];
+  onPin: (path: string) => void;
+  onUnpin: (path: string) => void;
+  onExclude: (path: string) => void;
+}
+
+const chipClassName =
+  'flex items-center gap-1 max-w-60 pl-2 pr-1 py-0.5 rounded-md text-xs bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor text-bolt-elements-textSecondary';
+
+const chipButtonClassName =
+  'flex items-center justify-center w-4 h-4 rounded text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary';
+
+/**
+ * Files that are sent with the next message. Pinned files stay for every message of the chat, mentioned files
+ * can be pinned so they don't have to be mentioned again and retrieved files can be removed if they don't fit.
+ */
+export const FileContextChips = memo(
+  ({ pinned, mentioned, retrieved, onPin, onUnpin, onExclude }: FileContextChipsProps) => {
+    const unpinned = mentioned.filter((path) => !pinned.includes(path));
+
+    if (pinned.length === 0 && unpinned.length === 0 && retrieved.length === 0) {
+      return null;
+    }
+
+    return (
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {pinned.map((path) => (
+          <div key={path} className={chipClassName} title={`${path} is sent with every message`}>
+            <div className="i-ph:push-pin-fill shrink-0 text-bolt-elements-item-contentAccent" />
+            <span className="truncate">{path}</span>
+            <button className={chipButtonClassName} title="Unpin" onClick={() => onUnpin(path)}>
+              <div className="i-ph:x" />
+            </button>
+          </div>
+        ))}
+        {unpinned.map((path) => (
+          <div key={path} className={chipClassName} title={`${path} is sent with this message`}>
+            <div className="i-ph:at shrink-0" />
+            <span className="truncate">{path}</span>
+            <button className={chipButtonClassName} title="Pin for every message" onClick={() => onPin(path)}>
+              <div className="i-ph:push-pin" />
+            </button>
+          </div>
+        ))}
+        {retrieved.map((path) => (
+          <div
+            key={path}
+            className={classNames(chipClassName, 'border-dashed')}
+            title={`${path} is sent with this message because it likely relates to it`}
+          >
+            <div className="i-ph:magnifying-glass shrink-0" />
+            <span className="truncate">{path}</span>
+            <button className={chipButtonClassName} title="Pin for every message" onClick={() => onPin(path)}>
+              <div className="i-ph:push-pin" />
+            </button>
+            <button className={chipButtonClassName} title="Don't send this file" onClick={() => onExclude(path)}>
+              <div className="i-ph:x" />
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  },
+);
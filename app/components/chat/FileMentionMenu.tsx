@@ -0,0 +1,37 @@
+import { memo } from 'react';
+import type { FileMentions } from '~/lib/hooks/useFileMentions';
+import { classNames } from '~/utils/classNames';
+
+interface FileMentionMenuProps {
+  mentions: FileMentions;
+}
+
+export const FileMentionMenu = memo(({ mentions }: FileMentionMenuProps) => {
+  const { suggestions, selectedIndex, setSelectedIndex, select } = mentions;
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mb-2 py-1 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm shadow-lg">
+      {suggestions.map(({ path, folder }, index) => (
+        <li
+          key={path}
+          className={classNames('flex items-center gap-2 px-3 py-1 cursor-pointer text-bolt-elements-textSecondary', {
+            'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': index === selectedIndex,
+          })}
+          onMouseEnter={() => setSelectedIndex(index)}
+          onMouseDown={(event) => {
+            // keeps the focus in the textarea
+            event.preventDefault();
+            select(path);
+          }}
+        >
+          <div className={classNames('shrink-0', folder ? 'i-ph:folder-simple' : 'i-ph:file')} />
+          <span className="truncate">{path}</span>
+        </li>
+      ))}
+    </ul>
+  );
+});
@@ -0,0 +1,56 @@
+import type { ToolInvocation } from 'ai';
+import { memo } from 'react';
+import { FILE_TOOL_NAMES, type FileToolArgs, type FileToolName } from '~/types/tools';
+import { classNames } from '~/utils/classNames';
+
+interface FileToolCallsProps {
+  toolInvocations: ToolInvocation[];
+}
+
+function describeToolCall(toolName: FileToolName, args: Partial<FileToolArgs[FileToolName]>) {
+  switch (toolName) {
+    case 'list_files': {
+      const { path } = args as FileToolArgs['list_files'];
+      return { icon: 'i-ph:folder-open', text: path ? `Listed files in ${path}` : 'Listed files' };
+    }
+    case 'read_file': {
+      return { icon: 'i-ph:file-text', text: `Read ${(args as FileToolArgs['read_file']).path ?? ''}` };
+    }
+    case 'grep': {
+      const { pattern, path } = args as FileToolArgs['grep'];
+      return { icon: 'i-ph:magnifying-glass', text: `Searched for "${pattern ?? ''}"${path ? ` in ${path}` : ''}` };
+    }
+    default: {
+      return { icon: 'i-ph:wrench', text: toolName };
+    }
+  }
+}
+
+/**
+ * Compact list of the read-only file tools the model used while preparing its answer.
+ */
+export const FileToolCalls = memo(({ toolInvocations }: FileToolCallsProps) => {
+  const fileToolCalls = toolInvocations.filter(({ toolName }) => FILE_TOOL_NAMES.includes(toolName as FileToolName));
+
+  if (fileToolCalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="flex flex-wrap gap-1.5 mb-3 text-xs text-bolt-elements-textTertiary">
+      {fileToolCalls.map(({ toolCallId, toolName, args, state }) => {
+        const { icon, text } = describeToolCall(toolName as FileToolName, args ?? {});
+
+        return (
+          <li
+            key={toolCallId}
+            className="flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+          >
+            <div className={classNames('shrink-0', state === 'result' ? icon : 'i-svg-spinners:90-ring-with-bg')} />
+            <span className="truncate">{text}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+});
@@ -0,0 +1,105 @@
+import { memo, useState } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import type { GenerationSettings } from '~/types/generation';
+import { classNames } from '~/utils/classNames';
+import { getDefaultGenerationSettings } from '~/utils/generation';
+
+interface GenerationSettingsPanelProps {
+  provider?: string;
+  model: string;
+  settings: GenerationSettings;
+  setSettings: (settings: GenerationSettings) => void;
+}
+
+const inputClassName =
+  'w-24 p-1 text-sm rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus';
+
+export const GenerationSettingsPanel = memo(
+  ({ provider, model, settings, setSettings }: GenerationSettingsPanelProps) => {
+    const [open, setOpen] = useState(false);
+
+    const defaults = getDefaultGenerationSettings(provider, model);
+    const customized = Object.values(settings).some((value) => value !== undefined);
+
+    const update = (key: keyof GenerationSettings, value: string) => {
+      const number = value === '' ? undefined : Number(value);
+
+      setSettings({ ...settings, [key]: Number.isFinite(number) ? number : undefined });
+    };
+
+    return (
+      <div className="mb-2 text-sm text-bolt-elements-textSecondary">
+        <button
+          className="flex items-center gap-1.5 bg-transparent hover:text-bolt-elements-textPrimary"
+          onClick={() => setOpen(!open)}
+        >
+          <div className={classNames('i-ph:caret-right transition-transform', { 'rotate-90': open })} />
+          Generation settings
+          {customized && <span className="text-xs text-bolt-elements-textTertiary">(customized)</span>}
+        </button>
+        {open && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-2">
+            <label className="flex items-center gap-2" title="Higher values make responses more creative">
+              Temperature
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={settings.temperature ?? defaults.temperature}
+                onChange={(event) => update('temperature', event.target.value)}
+              />
+              <span className="w-6 text-bolt-elements-textPrimary">{settings.temperature ?? defaults.temperature}</span>
+            </label>
+            <label
+              className="flex items-center gap-2"
+              title="Only sample from the most likely tokens with this probability mass"
+            >
+              Top P
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={settings.topP ?? defaults.topP}
+                onChange={(event) => update('topP', event.target.value)}
+              />
+              <span className="w-8 text-bolt-elements-textPrimary">{settings.topP ?? defaults.topP}</span>
+            </label>
+            <label className="flex items-center gap-2" title={`Up to ${defaults.maxTokens} for this model`}>
+              Max tokens
+              <input
+                type="number"
+                min={1}
+                max={defaults.maxTokens}
+                placeholder={String(defaults.maxTokens)}
+                value={settings.maxTokens ?? ''}
+                onChange={(event) => update('maxTokens', event.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label
+              className="flex items-center gap-2"
+              title="Makes responses reproducible on providers that support it"
+            >
+              Seed
+              <input
+                type="number"
+                step={1}
+                placeholder="random"
+                value={settings.seed ?? ''}
+                onChange={(event) => update('seed', event.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            {customized && (
+              <IconButton title="Reset to the defaults of the model" onClick={() => setSettings({})}>
+                <div className="i-ph:arrow-counter-clockwise" />
+              </IconButton>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
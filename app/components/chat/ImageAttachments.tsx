@@ -0,0 +1,39 @@
+import type { Attachment } from 'ai';
+import { memo } from 'react';
+import { classNames } from '~/utils/classNames';
+
+interface ImageAttachmentsProps {
+  attachments: Attachment[];
+  className?: string;
+
+  // the thumbnails can only be removed from the prompt, not from sent messages
+  onRemove?: (index: number) => void;
+}
+
+export const ImageAttachments = memo(({ attachments, className, onRemove }: ImageAttachmentsProps) => {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={classNames('flex flex-wrap gap-2', className)}>
+      {attachments.map((attachment, index) => (
+        <div
+          key={index}
+          className="relative group h-16 w-16 rounded-md overflow-hidden border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1"
+        >
+          <img src={attachment.url} alt={attachment.name ?? 'Attached image'} className="h-full w-full object-cover" />
+          {onRemove && (
+            <button
+              title="Remove image"
+              className="absolute top-0.5 right-0.5 hidden group-hover:flex items-center justify-center w-5 h-5 rounded-full bg-black/60 text-white"
+              onClick={() => onRemove(index)}
+            >
+              <div className="i-ph:x text-xs" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,55 @@
+import { memo } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import type { PatchFailure } from '~/types/actions';
+
+interface PatchFailureAlertProps {
+  failures: PatchFailure[];
+  disabled?: boolean;
+  onRequestFullFiles: (event: React.UIEvent) => void;
+  onDismiss: () => void;
+}
+
+const actionClassName =
+  'px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50';
+
+/**
+ * Creates the message that asks for the full content of the files whose patches failed. The files are
+ * mentioned so their current content is sent with it.
+ */
+export function getFullFilesPrompt(failures: PatchFailure[]) {
+  const files = failures.map(({ filePath }) => `@${filePath}`).join(' ');
+
+  return `The changes to ${files} could not be applied. Please write the full updated content of these files with file actions instead of patches.`;
+}
+
+export const PatchFailureAlert = memo(
+  ({ failures, disabled, onRequestFullFiles, onDismiss }: PatchFailureAlertProps) => {
+    return (
+      <div className="mb-2 p-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm">
+        <div className="flex items-start gap-2">
+          <div className="i-ph:warning-circle-bold text-bolt-elements-icon-error text-lg shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-bolt-elements-textPrimary font-medium">
+              {failures.length === 1
+                ? 'A change could not be applied'
+                : `${failures.length} changes could not be applied`}
+            </div>
+            <ul className="text-bolt-elements-textSecondary">
+              {failures.map(({ filePath, error }) => (
+                <li key={filePath} className="break-words">
+                  <code className="text-bolt-elements-textPrimary">{filePath}</code>: {error.split('\n')[0]}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <IconButton icon="i-ph:x" size="md" title="Dismiss" onClick={onDismiss} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-2 pl-7">
+          <button className={actionClassName} onClick={onRequestFullFiles} disabled={disabled}>
+            Request full files
+          </button>
+        </div>
+      </div>
+    );
+  },
+);
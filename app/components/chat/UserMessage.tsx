@@ -1,21 +1,34 @@
 // @ts-nocheck
 // Preventing TS checks with files presented in the video for a better presentation.
+import type { Attachment, JSONValue } from 'ai';
+import { getMessageAnnotations } from '~/utils/annotations';
 import { modificationsRegex } from '~/utils/diff';
-import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import { fileContextRegex } from '~/utils/file-context';
+import { ImageAttachments } from './ImageAttachments';
 import { Markdown } from './Markdown';
 
 interface UserMessageProps {
   content: string;
+  annotations?: JSONValue[];
+  attachments?: Attachment[];
 }
 
-export function UserMessage({ content }: UserMessageProps) {
+export function UserMessage({ content, annotations, attachments = [] }: UserMessageProps) {
+  const request = getMessageAnnotations({ annotations }, 'request').at(-1);
+
   return (
     <div className="overflow-hidden pt-[4px]">
+      {request && (
+        <div className="mb-2 text-xs text-bolt-elements-textTertiary">
+          Using: {request.model} ({request.provider})
+        </div>
+      )}
+      <ImageAttachments attachments={attachments} className="mb-2" />
       <Markdown limitedMarkdown>{sanitizeUserMessage(content)}</Markdown>
     </div>
   );
 }
 
 function sanitizeUserMessage(content: string) {
-  return content.replace(modificationsRegex, '').replace(MODEL_REGEX, 'Using: $1').replace(PROVIDER_REGEX, ' ($1)\n\n').trim();
+  return content.replace(modificationsRegex, '').replace(fileContextRegex, '').trim();
 }
@@ -1,7 +1,8 @@
 import * as Dialog from '@radix-ui/react-dialog';
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { FaPencilAlt, FaTrashAlt } from 'react-icons/fa';
 import { type ChatHistoryItem } from '~/lib/persistence';
+import { formatUsageSummary, summarizeUsage } from '~/utils/usage';
 
 interface HistoryItemProps {
   item: ChatHistoryItem;
@@ -13,6 +14,9 @@ export function HistoryItem({ item, onDelete, onEdit }: HistoryItemProps) {
   const [hovering, setHovering] = useState(false);
   const hoverRef = useRef<HTMLDivElement>(null);
 
+  const usage = useMemo(() => summarizeUsage(item.messages), [item.messages]);
+  const hasUsage = usage.promptTokens + usage.completionTokens > 0;
+
   useEffect(() => {
     let timeout: NodeJS.Timeout | undefined;
 
@@ -42,8 +46,17 @@ export function HistoryItem({ item, onDelete, onEdit }: HistoryItemProps) {
       ref={hoverRef}
       className="group rounded-md text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3 overflow-hidden flex justify-between items-center px-2 py-1"
     >
-      <a href={`/chat/${item.urlId}`} className="flex w-full relative truncate block">
-        {item.description}
+      <a
+        href={`/chat/${item.urlId}`}
+        className="flex w-full relative truncate block"
+        title={hasUsage ? formatUsageSummary(usage) : undefined}
+      >
+        <span className="truncate">{item.description}</span>
+        {hasUsage && !hovering && (
+          <span className="ml-auto pl-2 shrink-0 text-xs text-bolt-elements-textTertiary">
+            {formatUsageSummary(usage)}
+          </span>
+        )}
         <div className="absolute right-0 z-1 top-0 bottom-0 bg-gradient-to-l from-[transparent] group-hover:from-bolt-elements-background-depth-3 to-transparent w-10 flex justify-end group-hover:w-20 group-hover:from-45%">
           {hovering && (
             <div className="flex items-center gap-3 p-1">
@@ -7,9 +7,12 @@ import { ThemeSwitch } from '~/components/ui/ThemeSwitch';
 import { db, deleteById, getAll, chatId, type ChatHistoryItem } from '~/lib/persistence';
 import { cubicEasingFn } from '~/utils/easings';
 import { logger } from '~/utils/logger';
+import { formatDailyUsage, formatUsageSummary } from '~/utils/usage';
 import { HistoryItem } from './HistoryItem';
 import { binDates } from './date-binning';
+import { globalRulesStore, setGlobalRules } from '~/lib/stores/rules';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { BOLT_RULES_FILE } from '~/utils/constants';
 
 const menuVariants = {
   closed: {
@@ -35,6 +38,7 @@ const menuVariants = {
 type DialogContent = 
   | { type: 'delete'; item: ChatHistoryItem }
   | { type: 'edit'; item: ChatHistoryItem }
+  | { type: 'rules' }
   | null;
 
 export function Menu() {
@@ -182,6 +186,13 @@ export function Menu() {
             <span className="inline-block i-ph:upload-simple scale-110" />
             Import project backup
           </button>
+          <button
+            onClick={() => setDialogContent({ type: 'rules' })}
+            className="flex gap-2 items-center w-full bg-bolt-elements-sidebar-buttonBackgroundDefault text-bolt-elements-sidebar-buttonText hover:bg-bolt-elements-sidebar-buttonBackgroundHover rounded-md p-2 transition-theme"
+          >
+            <span className="inline-block i-ph:scroll scale-110" />
+            Global rules
+          </button>
         </div>
         <div className="px-4 mb-2">
           <input
@@ -206,10 +217,15 @@ export function Menu() {
             {list.length === 0 ? "No previous conversations" : "No matching projects found"}
           </div>}
           <DialogRoot open={dialogContent !== null}>
-            {binDates(filteredList).map(({ category, items }) => (
+            {binDates(filteredList).map(({ category, items, usage, days }) => (
               <div key={category} className="mt-4 first:mt-0 space-y-1">
-                <div className="text-bolt-elements-textTertiary sticky top-0 z-1 bg-bolt-elements-background-depth-2 pl-2 pt-2 pb-1">
+                <div className="flex justify-between text-bolt-elements-textTertiary sticky top-0 z-1 bg-bolt-elements-background-depth-2 pl-2 pt-2 pb-1">
                   {category}
+                  {usage.promptTokens + usage.completionTokens > 0 && (
+                    <span className="text-xs pr-2" title={formatDailyUsage(days)}>
+                      {formatUsageSummary(usage)}
+                    </span>
+                  )}
                 </div>
                 {items.map((item) => (
                   <HistoryItem 
@@ -294,6 +310,59 @@ export function Menu() {
                   </DialogDescription>
                 </>
               )}
+              {dialogContent?.type === 'rules' && (
+                <>
+                  <DialogTitle>Global Rules</DialogTitle>
+                  <DialogDescription asChild>
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+
+                        const form = e.target as HTMLFormElement;
+                        const textarea = form.elements.namedItem('rules') as HTMLTextAreaElement;
+
+                        setGlobalRules(textarea.value);
+                        closeDialog();
+                      }}
+                    >
+                      <div className="space-y-4">
+                        <p>
+                          These rules are added to every chat. Rules for a single project go into a{' '}
+                          <code>{BOLT_RULES_FILE}</code> file in the project root and take precedence.
+                        </p>
+                        <textarea
+                          name="rules"
+                          defaultValue={globalRulesStore.get()}
+                          placeholder="e.g. Always use TypeScript and pnpm"
+                          rows={8}
+                          autoFocus
+                          className="w-full px-3 py-2 resize-none
+                            bg-bolt-elements-background-depth-1
+                            border border-bolt-elements-borderColor
+                            rounded-md
+                            text-bolt-elements-textPrimary
+                            dark:text-white
+                            placeholder:text-bolt-elements-textTertiary
+                            focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
+                        />
+                        <div className="flex gap-2 justify-end">
+                          <DialogButton
+                            type="secondary"
+                            onClick={(event) => {
+                              // the button would otherwise submit the form and save the rules
+                              event.preventDefault();
+                              closeDialog();
+                            }}
+                          >
+                            Cancel
+                          </DialogButton>
+                          <DialogButton type="primary">Save</DialogButton>
+                        </div>
+                      </div>
+                    </form>
+                  </DialogDescription>
+                </>
+              )}
             </Dialog>
           </DialogRoot>
         </div>
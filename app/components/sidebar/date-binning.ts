@@ -1,7 +1,14 @@
 import { format, isAfter, isThisWeek, isThisYear, isToday, isYesterday, subDays } from 'date-fns';
 import type { ChatHistoryItem } from '~/lib/persistence';
+import {
+  addUsageSummaries,
+  EMPTY_USAGE_SUMMARY,
+  summarizeUsageByDay,
+  type DailyUsage,
+  type UsageSummary,
+} from '~/utils/usage';
 
-type Bin = { category: string; items: ChatHistoryItem[] };
+type Bin = { category: string; items: ChatHistoryItem[]; usage: UsageSummary; days: DailyUsage[]; latest: number };
 
 export function binDates(_list: ChatHistoryItem[]) {
   const list = _list.toSorted((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
@@ -9,24 +16,34 @@ export function binDates(_list: ChatHistoryItem[]) {
   const binLookup: Record<string, Bin> = {};
   const bins: Array<Bin> = [];
 
-  list.forEach((item) => {
-    const category = dateCategory(new Date(item.timestamp));
+  const getBin = (date: Date) => {
+    const category = dateCategory(date);
 
     if (!(category in binLookup)) {
-      const bin = {
-        category,
-        items: [item],
-      };
+      const bin = { category, items: [], usage: EMPTY_USAGE_SUMMARY, days: [], latest: date.getTime() };
 
       binLookup[category] = bin;
 
       bins.push(bin);
-    } else {
-      binLookup[category].items.push(item);
     }
+
+    return binLookup[category];
+  };
+
+  list.forEach((item) => {
+    getBin(new Date(item.timestamp)).items.push(item);
+  });
+
+  // usage counts on the day of each message, which can be before the chat was last saved
+  summarizeUsageByDay(list).forEach((daily) => {
+    const bin = getBin(daily.date);
+
+    bin.usage = addUsageSummaries(bin.usage, daily.usage);
+    bin.days.push(daily);
   });
 
-  return bins;
+  // days with usage can add bins without chats, the date ranges of the categories don't overlap
+  return bins.sort((a, b) => b.latest - a.latest);
 }
 
 function dateCategory(date: Date) {
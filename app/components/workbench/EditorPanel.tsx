@@ -22,6 +22,7 @@ import { logger, renderLogger } from '~/utils/logger';
 import { isMobile } from '~/utils/mobile';
 import { FileBreadcrumb } from './FileBreadcrumb';
 import { FileTree } from './FileTree';
+import { PreviewConsole } from './PreviewConsole';
 import { Terminal, type TerminalRef } from './terminal/Terminal';
 
 interface EditorPanelProps {
@@ -60,6 +61,7 @@ export const EditorPanel = memo(
 
     const theme = useStore(themeStore);
     const showTerminal = useStore(workbenchStore.showTerminal);
+    const previewErrors = useStore(workbenchStore.previewErrors);
 
     const terminalRefs = useRef<Array<TerminalRef | null>>([]);
     const terminalPanelRef = useRef<ImperativePanelHandle>(null);
@@ -67,6 +69,7 @@ export const EditorPanel = memo(
 
     const [activeTerminal, setActiveTerminal] = useState(0);
     const [terminalCount, setTerminalCount] = useState(1);
+    const [showConsole, setShowConsole] = useState(false);
 
     const activeFileSegments = useMemo(() => {
       if (!editorDocument) {
@@ -115,10 +118,15 @@ export const EditorPanel = memo(
       terminalToggledByShortcut.current = false;
     }, [showTerminal]);
 
+    const selectTerminal = (index: number) => {
+      setActiveTerminal(index);
+      setShowConsole(false);
+    };
+
     const addTerminal = () => {
       if (terminalCount < MAX_TERMINALS) {
         setTerminalCount(terminalCount + 1);
-        setActiveTerminal(terminalCount);
+        selectTerminal(terminalCount);
       }
     };
 
@@ -216,7 +224,7 @@ export const EditorPanel = memo(
                                 !isActive,
                             },
                           )}
-                          onClick={() => setActiveTerminal(index)}
+                          onClick={() => selectTerminal(index)}
                         >
                           <div className="i-ph:terminal-window-duotone text-lg" />
                           Bolt Terminal
@@ -231,7 +239,7 @@ export const EditorPanel = memo(
                                 !isActive,
                             },
                           )}
-                          onClick={() => setActiveTerminal(index)}
+                          onClick={() => selectTerminal(index)}
                         >
                           <div className="i-ph:terminal-window-duotone text-lg" />
                           Terminal {terminalCount > 1 && index}
@@ -248,6 +256,25 @@ export const EditorPanel = memo(
                     key="add-terminal-button"
                   />
                 )}
+                <button
+                  className={classNames(
+                    'flex items-center text-sm cursor-pointer gap-1.5 px-3 py-2 h-full whitespace-nowrap rounded-full',
+                    {
+                      'bg-bolt-elements-terminals-buttonBackground text-bolt-elements-textPrimary': showConsole,
+                      'bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-terminals-buttonBackground':
+                        !showConsole,
+                    },
+                  )}
+                  onClick={() => setShowConsole(true)}
+                >
+                  <div className="i-ph:bug-beetle-duotone text-lg" />
+                  Console
+                  {previewErrors.length > 0 && (
+                    <span className="px-1.5 rounded-full text-xs bg-bolt-elements-button-danger-background text-bolt-elements-button-danger-text">
+                      {previewErrors.length}
+                    </span>
+                  )}
+                </button>
                 <IconButton
                   className="ml-auto"
                   icon="i-ph:caret-down"
@@ -266,7 +293,7 @@ export const EditorPanel = memo(
                     <Terminal
                       key={index}
                       className={classNames('h-full overflow-hidden', {
-                        hidden: !isActive,
+                        hidden: !isActive || showConsole,
                       })}
                       ref={(ref) => {
                         terminalRefs.current.push(ref);
@@ -281,7 +308,7 @@ export const EditorPanel = memo(
                   <Terminal
                     key={index}
                     className={classNames('h-full overflow-hidden', {
-                      hidden: !isActive,
+                      hidden: !isActive || showConsole,
                     })}
                     ref={(ref) => {
                       terminalRefs.current.push(ref);
@@ -292,6 +319,7 @@ export const EditorPanel = memo(
                   />
                 );
               })}
+              <PreviewConsole className={classNames('h-full', { hidden: !showConsole })} />
             </div>
           </div>
         </Panel>
@@ -11,6 +11,8 @@ export const Preview = memo(() => {
   const [isPortDropdownOpen, setIsPortDropdownOpen] = useState(false);
   const hasSelectedPreview = useRef(false);
   const previews = useStore(workbenchStore.previews);
+  const previewErrors = useStore(workbenchStore.previewErrors);
+  const chatRequest = useStore(workbenchStore.chatRequest);
   const activePreview = previews[activePreviewIndex];
 
   const [url, setUrl] = useState('');
@@ -107,6 +109,19 @@ export const Preview = memo(() => {
             previews={previews}
           />
         )}
+        {previewErrors.length > 0 && (
+          <IconButton
+            className="text-bolt-elements-icon-error"
+            title={`${previewErrors.length} ${previewErrors.length === 1 ? 'error' : 'errors'} in the preview, send them to the chat`}
+            disabled={chatRequest !== undefined}
+            onClick={() => workbenchStore.sendPreviewErrorsToChat()}
+          >
+            <div className="flex items-center gap-1 text-sm">
+              <div className="i-ph:warning-circle text-xl" />
+              {previewErrors.length}
+            </div>
+          </IconButton>
+        )}
       </div>
       <div className="flex-1 border-t border-bolt-elements-borderColor">
         {activePreview ? (
@@ -0,0 +1,91 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useRef } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import type { PreviewConsoleEntryKind } from '~/lib/stores/preview-console';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { isPreviewError, previewConsoleLabels } from '~/utils/preview-console';
+
+interface PreviewConsoleProps {
+  className?: string;
+}
+
+export const PreviewConsole = memo(({ className }: PreviewConsoleProps) => {
+  const entries = useStore(workbenchStore.previewConsole);
+  const errors = useStore(workbenchStore.previewErrors);
+  const chatRequest = useStore(workbenchStore.chatRequest);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [entries]);
+
+  return (
+    <div className={classNames('flex flex-col min-h-0 text-xs', className)}>
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-bolt-elements-borderColor">
+        <span className="flex-1 text-bolt-elements-textTertiary">
+          Console output, uncaught errors and failed requests of the preview
+        </span>
+        <button
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50"
+          disabled={errors.length === 0 || chatRequest !== undefined}
+          onClick={() => workbenchStore.sendPreviewErrorsToChat()}
+        >
+          <div className="i-ph:chat-circle-text" />
+          Send errors to chat
+        </button>
+        <IconButton
+          icon="i-ph:trash"
+          size="md"
+          title="Clear"
+          disabled={entries.length === 0}
+          onClick={() => workbenchStore.clearPreviewConsole()}
+        />
+      </div>
+      {entries.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-bolt-elements-textTertiary">No output</div>
+      ) : (
+        <ul ref={listRef} className="flex-1 overflow-auto font-mono">
+          {entries.map(({ id, kind, message, stack, pathname, count }) => (
+            <li
+              key={id}
+              className="px-3 py-1.5 border-b border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+            >
+              <div className="flex items-start gap-2">
+                <div className={classNames('shrink-0 mt-0.5', getEntryIcon(kind))} />
+                <div className="flex-1 min-w-0">
+                  <span className="text-bolt-elements-textTertiary">{previewConsoleLabels[kind]}: </span>
+                  <span className="whitespace-pre-wrap break-words">{message}</span>
+                  {stack && (
+                    <details className="text-bolt-elements-textSecondary">
+                      <summary className="cursor-pointer">Stack trace</summary>
+                      <pre className="whitespace-pre-wrap break-words">{stack}</pre>
+                    </details>
+                  )}
+                </div>
+                {count > 1 && (
+                  <span className="shrink-0 px-1.5 rounded-full bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary">
+                    {count}
+                  </span>
+                )}
+                <span className="shrink-0 text-bolt-elements-textTertiary">{pathname}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+function getEntryIcon(kind: PreviewConsoleEntryKind) {
+  if (isPreviewError({ kind })) {
+    return 'i-ph:x-circle-fill text-bolt-elements-icon-error';
+  }
+
+  if (kind === 'warn') {
+    return 'i-ph:warning-fill text-bolt-elements-icon-secondary';
+  }
+
+  return 'i-ph:info text-bolt-elements-icon-tertiary';
+}
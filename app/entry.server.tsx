@@ -5,16 +5,18 @@ import { renderToReadableStream } from 'react-dom/server';
 import { renderHeadToString } from 'remix-island';
 import { Head } from './root';
 import { themeStore } from '~/lib/stores/theme';
-import { initializeModelList } from '~/utils/constants';
+import { discoverModels } from '~/lib/.server/llm/model-discovery';
+import { updateModelList } from '~/utils/constants';
 
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
   responseHeaders: Headers,
   remixContext: EntryContext,
-  _loadContext: AppLoadContext,
+  loadContext: AppLoadContext,
 ) {
-  await initializeModelList();
+  // only the keys of the server are used here, so the models are the same for every user
+  updateModelList((await discoverModels(loadContext.cloudflare.env)).models);
 
   const readable = await renderToReadableStream(<RemixServer context={remixContext} url={request.url} />, {
     signal: request.signal,
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getUserApiKeys, readApiKeyVault, writeApiKeyVault, type ApiKeyVault } from './api-key-vault';
+
+const vault: ApiKeyVault = { OpenAI: { key: 'sk-test', updatedAt: '2024-11-01T00:00:00.000Z' } };
+
+const env = (values: Record<string, string>) => values as unknown as Env;
+
+function requestWithVault(setCookie: string) {
+  return new Request('https://bolt.local/api/chat', { headers: { Cookie: setCookie.split(';')[0] } });
+}
+
+describe('api key vault', () => {
+  it('should only store the keys encrypted', async () => {
+    const setCookie = await writeApiKeyVault(vault, env({ API_KEY_VAULT_SECRET: 'secret' }));
+
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).not.toContain('sk-test');
+
+    const request = requestWithVault(setCookie);
+
+    expect(getUserApiKeys(await readApiKeyVault(request, env({ API_KEY_VAULT_SECRET: 'secret' })))).toEqual({
+      OpenAI: 'sk-test',
+    });
+    expect(await readApiKeyVault(request, env({ API_KEY_VAULT_SECRET: 'other' }))).toEqual({});
+  });
+
+  it('should read keys encrypted with the previous secret while rotating', async () => {
+    const request = requestWithVault(await writeApiKeyVault(vault, env({ API_KEY_VAULT_SECRET: 'old' })));
+
+    const rotatedEnv = env({ API_KEY_VAULT_SECRET: 'new', API_KEY_VAULT_PREVIOUS_SECRET: 'old' });
+
+    expect(await readApiKeyVault(request, rotatedEnv)).toEqual(vault);
+  });
+});
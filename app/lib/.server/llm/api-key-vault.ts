@@ -0,0 +1,101 @@
+import { createCookie } from '@remix-run/cloudflare';
+import { decrypt, encrypt } from '~/lib/crypto';
+import type { ApiKeyStatus } from '~/types/api-keys';
+import { createScopedLogger } from '~/utils/logger';
+import { getProviderEnv } from './api-key';
+import { ChatError } from './errors';
+
+const logger = createScopedLogger('ApiKeyVault');
+
+// lets the vault work in development without any configuration
+const DEVELOPMENT_SECRET = 'bolt-development-secret';
+
+const vaultCookie = createCookie('bolt_api_keys', {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'strict',
+  path: '/',
+  maxAge: 60 * 60 * 24 * 30,
+});
+
+interface VaultEntry {
+  key: string;
+  updatedAt: string;
+}
+
+export type ApiKeyVault = Record<string, VaultEntry>;
+
+/**
+ * The AES helpers expect a base64 encoded 256 bit key, hashing the secret lets us accept any passphrase.
+ */
+async function deriveKey(secret: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+function getSecrets(cloudflareEnv: Env) {
+  const env = getProviderEnv(cloudflareEnv);
+
+  return {
+    current: env('API_KEY_VAULT_SECRET') || (import.meta.env.DEV ? DEVELOPMENT_SECRET : undefined),
+
+    // set while rotating the secret, keys encrypted with it are re-encrypted on the next write
+    previous: env('API_KEY_VAULT_PREVIOUS_SECRET'),
+  };
+}
+
+/**
+ * Reads the keys of the user from the encrypted cookie. A cookie that can't be decrypted (e.g. after the
+ * secret changed without setting the previous one) is treated as empty.
+ */
+export async function readApiKeyVault(request: Request, cloudflareEnv: Env): Promise<ApiKeyVault> {
+  const payload: unknown = await vaultCookie.parse(request.headers.get('Cookie'));
+
+  if (typeof payload !== 'string' || !payload) {
+    return {};
+  }
+
+  const { current, previous } = getSecrets(cloudflareEnv);
+
+  for (const secret of [current, previous]) {
+    if (!secret) {
+      continue;
+    }
+
+    try {
+      return JSON.parse(await decrypt(await deriveKey(secret), payload)) as ApiKeyVault;
+    } catch {
+      // try the next secret
+    }
+  }
+
+  logger.warn('Failed to decrypt the API key vault, ignoring the stored keys');
+
+  return {};
+}
+
+/**
+ * Returns the `Set-Cookie` header that stores the vault, always encrypted with the current secret.
+ */
+export async function writeApiKeyVault(vault: ApiKeyVault, cloudflareEnv: Env) {
+  const { current } = getSecrets(cloudflareEnv);
+
+  if (!current) {
+    throw new ChatError('unknown', 'The API key vault is not configured, set API_KEY_VAULT_SECRET on the server');
+  }
+
+  if (Object.keys(vault).length === 0) {
+    return vaultCookie.serialize('', { maxAge: 0 });
+  }
+
+  return vaultCookie.serialize(await encrypt(await deriveKey(current), JSON.stringify(vault)));
+}
+
+export function getUserApiKeys(vault: ApiKeyVault) {
+  return Object.fromEntries(Object.entries(vault).map(([provider, { key }]) => [provider, key]));
+}
+
+export function getApiKeyStatus(vault: ApiKeyVault): ApiKeyStatus[] {
+  return Object.entries(vault).map(([provider, { updatedAt }]) => ({ provider, updatedAt }));
+}
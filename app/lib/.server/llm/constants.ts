@@ -1,5 +1,18 @@
-// see https://docs.anthropic.com/en/docs/about-claude/models
-export const MAX_TOKENS = 8000;
-
 // limits the number of model responses that can be returned in a single request
 export const MAX_RESPONSE_SEGMENTS = 2;
+
+// maximum length of the project and the global rules each
+export const MAX_RULES_LENGTH = 10_000;
+
+// limits what the prompt enhancer gets to know about the project
+export const MAX_ENHANCER_FILES = 300;
+export const MAX_ENHANCER_PACKAGE_JSON_LENGTH = 5000;
+
+// used to estimate tokens without a tokenizer, see `estimateTokens`
+export const CHARS_PER_TOKEN = 3.5;
+
+// role markers and other formatting each message adds on top of its content
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// rough cost of an image, providers scale screenshots down to about this many tokens
+export const IMAGE_TOKENS = 1600;
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COLLAPSED_FILE_CONTENT,
+  COLLAPSED_FILE_CONTEXT,
+  COLLAPSED_MODIFICATIONS,
+  estimateMessagesTokens,
+  fitMessagesToContext,
+} from './context-window';
+import type { Messages } from './stream-text';
+
+const artifact = (content: string) =>
+  `Sure.\n\n<boltArtifact id="app" title="App"><boltAction type="file" filePath="index.js">${content}</boltAction><boltAction type="shell">node index.js</boltAction></boltArtifact>`;
+
+const modifications = (content: string) =>
+  `<bolt_file_modifications>\n<file path="/home/project/index.js">${content}</file>\n</bolt_file_modifications>\n\n`;
+
+describe('fitMessagesToContext', () => {
+  it('should leave messages untouched if they fit', () => {
+    const messages: Messages = [
+      { role: 'user', content: 'Build a todo app' },
+      { role: 'assistant', content: artifact('console.log(1);') },
+    ];
+
+    expect(fitMessagesToContext(messages, { contextLength: 10_000, maxOutputTokens: 1000 })).toBe(messages);
+  });
+
+  it('should collapse older artifacts and modifications but keep the latest ones', () => {
+    const large = 'x'.repeat(2000);
+
+    const messages: Messages = [
+      { role: 'user', content: 'Build a todo app' },
+      { role: 'assistant', content: artifact(large) },
+      { role: 'user', content: `${modifications(large)}Add a button` },
+      { role: 'assistant', content: artifact(large) },
+      { role: 'user', content: `${modifications(large)}Make it blue` },
+    ];
+
+    const result = fitMessagesToContext(messages, { contextLength: 3000, maxOutputTokens: 1000 });
+
+    expect(result).toHaveLength(5);
+    expect(result[1].content).toContain(COLLAPSED_FILE_CONTENT);
+    expect(result[1].content).toContain('<boltAction type="shell">node index.js</boltAction>');
+    expect(result[2].content).toBe(`${COLLAPSED_MODIFICATIONS}Add a button`);
+    expect(result[3].content).toBe(messages[3].content);
+    expect(result[4].content).toBe(messages[4].content);
+  });
+
+  it('should collapse file context that is sent again later', () => {
+    const fileContext = `<bolt_file_context>\n<file path="/home/project/index.js">${'x'.repeat(2000)}</file>\n</bolt_file_context>\n\n`;
+
+    const messages: Messages = [
+      { role: 'user', content: `${fileContext}Add a button` },
+      { role: 'assistant', content: 'Done' },
+      { role: 'user', content: `${fileContext}Make it blue` },
+    ];
+
+    const result = fitMessagesToContext(messages, { contextLength: 1500, maxOutputTokens: 500 });
+
+    expect(result[0].content).toBe(`${COLLAPSED_FILE_CONTEXT}Add a button`);
+    expect(result[2]).toBe(messages[2]);
+  });
+
+  it('should drop the oldest turns and start with a user message', () => {
+    const messages: Messages = Array.from({ length: 10 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      content: `message ${index} ${'y'.repeat(400)}`,
+    }));
+
+    const result = fitMessagesToContext(messages, { contextLength: 1000, maxOutputTokens: 500 });
+
+    expect(result.length).toBeLessThan(messages.length);
+    expect(result[0].role).toBe('user');
+    expect(result.at(-1)).toBe(messages.at(-1));
+    expect(estimateMessagesTokens(result)).toBeLessThanOrEqual(500);
+  });
+
+  it('should always keep the latest message', () => {
+    const messages: Messages = [
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'answer' },
+      { role: 'user', content: 'z'.repeat(10_000) },
+    ];
+
+    const result = fitMessagesToContext(messages, { contextLength: 1000, maxOutputTokens: 500 });
+
+    expect(result).toEqual([messages[2]]);
+  });
+
+  it('should count attached images towards the budget', () => {
+    const image = { contentType: 'image/png', url: 'data:image/png;base64,iVBORw0KGgo=' };
+
+    const messages: Messages = [
+      { role: 'user', content: 'Build this page', experimental_attachments: [image, image] },
+      { role: 'assistant', content: 'Done' },
+      { role: 'user', content: 'Make it blue' },
+    ];
+
+    const result = fitMessagesToContext(messages, { contextLength: 3000, maxOutputTokens: 500 });
+
+    expect(result).toEqual([messages[2]]);
+  });
+});
@@ -0,0 +1,154 @@
+import { FILE_CONTEXT_TAG_NAME, MODIFICATIONS_TAG_NAME } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { CHARS_PER_TOKEN, IMAGE_TOKENS, MESSAGE_OVERHEAD_TOKENS } from './constants';
+import type { Messages } from './stream-text';
+
+const logger = createScopedLogger('ContextWindow');
+
+const modificationsRegex = new RegExp(`<${MODIFICATIONS_TAG_NAME}>[\\s\\S]*?<\\/${MODIFICATIONS_TAG_NAME}>\\s*`, 'g');
+const fileContextRegex = new RegExp(`<${FILE_CONTEXT_TAG_NAME}>[\\s\\S]*?<\\/${FILE_CONTEXT_TAG_NAME}>\\s*`, 'g');
+const artifactRegex = /<boltArtifact[^>]*>[\s\S]*?(?:<\/boltArtifact>|$)/g;
+const fileActionRegex = /(<boltAction[^>]*type="(?:file|patch)"[^>]*>)[\s\S]*?<\/boltAction>/g;
+
+export const COLLAPSED_FILE_CONTENT = '[content omitted, see the latest version of this file]';
+export const COLLAPSED_MODIFICATIONS = `<${MODIFICATIONS_TAG_NAME}>[omitted, superseded by later modifications]</${MODIFICATIONS_TAG_NAME}>\n\n`;
+export const COLLAPSED_FILE_CONTEXT = `<${FILE_CONTEXT_TAG_NAME}>[omitted, superseded by later file context]</${FILE_CONTEXT_TAG_NAME}>\n\n`;
+
+export interface ContextWindowOptions {
+  /**
+   * The total number of tokens the model can attend to, including the response.
+   */
+  contextLength: number;
+
+  /**
+   * Tokens kept free for the response of the model.
+   */
+  maxOutputTokens: number;
+
+  systemPrompt?: string;
+}
+
+/**
+ * Rough token estimate that doesn't require a tokenizer. It intentionally errs on the
+ * side of overestimating so that trimmed requests stay below the real limit.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessagesTokens(messages: Messages) {
+  return messages.reduce((total, message) => {
+    const images = message.experimental_attachments?.length ?? 0;
+
+    return total + estimateTokens(message.content) + images * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+}
+
+/**
+ * Makes sure the system prompt, the history and the response fit into the context window of the model.
+ *
+ * We first collapse content that has been superseded by later turns (older file modifications, referenced
+ * files and the file contents of older artifacts) and only then drop the oldest turns. The latest user
+ * message is always kept, even if it alone exceeds the budget.
+ */
+export function fitMessagesToContext(messages: Messages, options: ContextWindowOptions): Messages {
+  const { contextLength, maxOutputTokens, systemPrompt = '' } = options;
+
+  const budget = contextLength - maxOutputTokens - estimateTokens(systemPrompt);
+  const initialTokens = estimateMessagesTokens(messages);
+
+  if (initialTokens <= budget) {
+    return messages;
+  }
+
+  let result = collapseSupersededContent(messages);
+
+  while (result.length > 1 && estimateMessagesTokens(result) > budget) {
+    result = dropOldestTurn(result);
+  }
+
+  logger.debug(
+    `Trimmed history from ${messages.length} messages (~${initialTokens} tokens) to ${result.length} messages (~${estimateMessagesTokens(result)} tokens), budget ${budget}`,
+  );
+
+  return result;
+}
+
+/**
+ * Keeps at most the given number of recent messages, used when the user asks to shorten the history.
+ */
+export function keepRecentMessages(messages: Messages, maxMessages: number): Messages {
+  let result = messages.slice(-maxMessages);
+
+  while (result.length > 1 && result[0].role !== 'user') {
+    result = result.slice(1);
+  }
+
+  return result;
+}
+
+function collapseSupersededContent(messages: Messages): Messages {
+  const latestModificationsIndex = findLastIndex(
+    messages,
+    (message) => message.role === 'user' && message.content.includes(`<${MODIFICATIONS_TAG_NAME}>`),
+  );
+
+  const latestFileContextIndex = findLastIndex(
+    messages,
+    (message) => message.role === 'user' && message.content.includes(`<${FILE_CONTEXT_TAG_NAME}>`),
+  );
+
+  const latestArtifactIndex = findLastIndex(
+    messages,
+    (message) => message.role === 'assistant' && message.content.includes('<boltArtifact'),
+  );
+
+  return messages.map((message, index) => {
+    if (message.role === 'user') {
+      let content = message.content;
+
+      if (index < latestModificationsIndex) {
+        content = content.replace(modificationsRegex, COLLAPSED_MODIFICATIONS);
+      }
+
+      if (index < latestFileContextIndex) {
+        content = content.replace(fileContextRegex, COLLAPSED_FILE_CONTEXT);
+      }
+
+      return content === message.content ? message : { ...message, content };
+    }
+
+    if (message.role === 'assistant' && index < latestArtifactIndex) {
+      return { ...message, content: collapseArtifacts(message.content) };
+    }
+
+    return message;
+  });
+}
+
+function collapseArtifacts(content: string) {
+  return content.replace(artifactRegex, (artifact) => {
+    return artifact.replace(fileActionRegex, (_, openTag) => `${openTag}${COLLAPSED_FILE_CONTENT}</boltAction>`);
+  });
+}
+
+function dropOldestTurn(messages: Messages): Messages {
+  let start = 1;
+
+  // providers like Anthropic require the conversation to start with a user message
+  while (start < messages.length - 1 && messages[start].role !== 'user') {
+    start++;
+  }
+
+  return messages.slice(start);
+}
+
+function findLastIndex<T>(list: T[], predicate: (value: T) => boolean) {
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (predicate(list[i])) {
+      return i;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,49 @@
+import { APICallError, LoadAPIKeyError } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { toChatError } from './errors';
+
+const apiCallError = (statusCode: number, message: string, responseHeaders?: Record<string, string>) =>
+  new APICallError({ message, url: 'https://api.example.com', requestBodyValues: {}, statusCode, responseHeaders });
+
+describe('toChatError', () => {
+  it('should classify provider responses by status code', () => {
+    expect(toChatError(apiCallError(401, 'invalid x-api-key')).code).toBe('auth');
+    expect(toChatError(apiCallError(404, 'model: gpt-5')).code).toBe('model_not_found');
+    expect(toChatError(apiCallError(503, 'overloaded')).code).toBe('provider_unreachable');
+    expect(toChatError(apiCallError(400, 'prompt is too long: 210000 tokens > 200000 maximum')).code).toBe(
+      'context_overflow',
+    );
+  });
+
+  it('should pass on the retry-after header of rate limits', () => {
+    const error = toChatError(apiCallError(429, 'rate limited', { 'retry-after': '12' }), {
+      provider: 'Anthropic',
+      model: 'claude-3-5-sonnet-latest',
+    });
+
+    expect(error.status).toBe(429);
+    expect(error.toJSON()).toEqual({
+      error: {
+        code: 'rate_limit',
+        message: 'rate limited',
+        provider: 'Anthropic',
+        model: 'claude-3-5-sonnet-latest',
+        retryAfter: 12,
+      },
+    });
+  });
+
+  it('should treat missing keys and network failures as recoverable errors', () => {
+    const missingKey = new LoadAPIKeyError({ message: 'Anthropic API key is missing' });
+
+    expect(toChatError(missingKey, { provider: 'Anthropic' }).code).toBe('auth');
+    expect(toChatError(new TypeError('fetch failed')).code).toBe('provider_unreachable');
+  });
+
+  it('should only treat failed connections as unreachable providers', () => {
+    const refused = new TypeError('Request failed', { cause: Object.assign(new Error(), { code: 'ECONNREFUSED' }) });
+
+    expect(toChatError(refused).code).toBe('provider_unreachable');
+    expect(toChatError(new TypeError("Cannot read properties of undefined (reading 'text')")).code).toBe('unknown');
+  });
+});
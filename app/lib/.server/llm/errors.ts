@@ -0,0 +1,133 @@
+import { APICallError, LoadAPIKeyError, NoSuchModelError, RetryError } from 'ai';
+import type { ChatErrorBody, ChatErrorCode, ChatErrorInfo } from '~/types/errors';
+import { isNetworkError } from './failover';
+
+const STATUS_CODES: Record<ChatErrorCode, number> = {
+  auth: 401,
+  rate_limit: 429,
+  context_overflow: 413,
+  model_not_found: 404,
+  provider_unreachable: 502,
+  bad_request: 400,
+  unknown: 500,
+};
+
+// providers report a prompt that exceeds the context window as a generic 400 error
+const contextOverflowRegex = /context length|context window|prompt is too long|too many tokens|maximum.*tokens/i;
+
+export class ChatError extends Error {
+  constructor(
+    readonly code: ChatErrorCode,
+    message: string,
+    readonly details: Omit<ChatErrorInfo, 'code' | 'message'> = {},
+  ) {
+    super(message);
+    this.name = 'ChatError';
+  }
+
+  get status() {
+    return STATUS_CODES[this.code];
+  }
+
+  toJSON(): ChatErrorBody {
+    return { error: { code: this.code, message: this.message, ...this.details } };
+  }
+}
+
+/**
+ * Maps errors of the AI SDK and the providers to the error codes the client knows how to recover from.
+ */
+export function toChatError(error: unknown, selection: { provider?: string; model?: string } = {}): ChatError {
+  if (error instanceof ChatError) {
+    return error;
+  }
+
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+
+  if (LoadAPIKeyError.isInstance(cause)) {
+    return new ChatError('auth', `No API key configured for ${selection.provider ?? 'the provider'}`, selection);
+  }
+
+  if (NoSuchModelError.isInstance(cause)) {
+    return new ChatError('model_not_found', cause.message, selection);
+  }
+
+  if (APICallError.isInstance(cause)) {
+    return fromAPICallError(cause, selection);
+  }
+
+  if (isNetworkError(cause)) {
+    return new ChatError('provider_unreachable', `Could not reach ${selection.provider ?? 'the provider'}`, selection);
+  }
+
+  const message = cause instanceof Error ? cause.message : 'Unknown error';
+
+  // some providers throw plain errors for a missing key instead of a `LoadAPIKeyError`
+  if (/api key/i.test(message)) {
+    return new ChatError('auth', message, selection);
+  }
+
+  return new ChatError('unknown', message, selection);
+}
+
+function fromAPICallError(error: APICallError, selection: { provider?: string; model?: string }) {
+  const { statusCode, message } = error;
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new ChatError('auth', message, selection);
+  }
+
+  if (statusCode === 429) {
+    return new ChatError('rate_limit', message, { ...selection, retryAfter: getRetryAfter(error.responseHeaders) });
+  }
+
+  if (statusCode === 404) {
+    return new ChatError('model_not_found', message, selection);
+  }
+
+  if (contextOverflowRegex.test(message) || contextOverflowRegex.test(error.responseBody ?? '')) {
+    return new ChatError('context_overflow', message, selection);
+  }
+
+  if (statusCode === undefined || statusCode >= 500) {
+    return new ChatError('provider_unreachable', message, selection);
+  }
+
+  return new ChatError(statusCode === 400 ? 'bad_request' : 'unknown', message, selection);
+}
+
+function getRetryAfter(headers: Record<string, string> | undefined) {
+  const value = headers?.['retry-after'];
+
+  if (!value) {
+    return undefined;
+  }
+
+  // either a number of seconds or an HTTP date
+  const seconds = Number(value);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(value);
+
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function errorResponse(error: ChatError) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (error.details.retryAfter !== undefined) {
+    headers['Retry-After'] = String(error.details.retryAfter);
+  }
+
+  return new Response(JSON.stringify(error.toJSON()), { status: error.status, headers });
+}
+
+/**
+ * Used for errors after the stream started, the client parses the message the same way as an error response.
+ */
+export function getStreamErrorMessage(error: unknown, selection?: { provider?: string; model?: string }) {
+  return JSON.stringify(toChatError(error, selection).toJSON());
+}
@@ -0,0 +1,94 @@
+import { APICallError, RetryError } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { isFailoverError, parseFallbackChain, withFailover, type ModelSelection } from './failover';
+
+const apiCallError = (statusCode: number, message: string) =>
+  new APICallError({ message, url: 'https://api.example.com', requestBodyValues: {}, statusCode });
+
+const chain: ModelSelection[] = [
+  { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' },
+  { provider: 'OpenAI', model: 'gpt-4o' },
+  { provider: 'Ollama', model: 'qwen2.5-coder:7b' },
+];
+
+describe('parseFallbackChain', () => {
+  it('should split the provider at the first colon and skip malformed entries', () => {
+    expect(parseFallbackChain(undefined)).toEqual([]);
+    expect(parseFallbackChain(' OpenAI:gpt-4o , ,Ollama:qwen2.5-coder:7b,Groq,:llama3,Mistral: ')).toEqual([
+      { provider: 'OpenAI', model: 'gpt-4o' },
+      { provider: 'Ollama', model: 'qwen2.5-coder:7b' },
+    ]);
+  });
+});
+
+describe('isFailoverError', () => {
+  it('should only fail over on errors the user cannot fix', () => {
+    expect(isFailoverError(apiCallError(429, 'rate limited'))).toBe(true);
+    expect(isFailoverError(apiCallError(400, 'invalid request'))).toBe(false);
+    expect(isFailoverError(apiCallError(401, 'invalid x-api-key'))).toBe(false);
+    expect(isFailoverError(new TypeError('fetch failed'))).toBe(true);
+    expect(isFailoverError(new TypeError("Cannot read properties of undefined (reading 'text')"))).toBe(false);
+  });
+
+  it('should look at the last error of retries', () => {
+    const retryError = (lastError: unknown) =>
+      new RetryError({ message: 'Failed after 3 attempts', reason: 'maxRetriesExceeded', errors: [lastError] });
+
+    expect(isFailoverError(retryError(apiCallError(503, 'overloaded')))).toBe(true);
+    expect(isFailoverError(retryError(apiCallError(400, 'invalid request')))).toBe(false);
+  });
+});
+
+describe('withFailover', () => {
+  it('should not fail over if the error of the requested model is not retryable', async () => {
+    const error = apiCallError(401, 'invalid x-api-key');
+    const start = vi.fn(async () => Promise.reject(error));
+
+    await expect(withFailover(chain, start)).rejects.toBe(error);
+    expect(start).toHaveBeenCalledOnce();
+  });
+
+  it('should skip fallbacks that fail as well', async () => {
+    const start = vi.fn(async ({ provider }: ModelSelection) => {
+      if (provider === 'Anthropic') {
+        throw apiCallError(529, 'overloaded');
+      }
+
+      if (provider === 'OpenAI') {
+        throw new Error('OpenAI API key is missing');
+      }
+
+      return 'stream';
+    });
+
+    const { result, selection, failedAttempts } = await withFailover([...chain, chain[1]], start);
+
+    expect(result).toBe('stream');
+    expect(selection).toEqual(chain[2]);
+    expect(failedAttempts).toEqual([
+      { ...chain[0], reason: 'overloaded' },
+      { ...chain[1], reason: 'OpenAI API key is missing' },
+    ]);
+    expect(start).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw the error of the requested model and report every attempt if all models fail', async () => {
+    const error = apiCallError(429, 'rate limited');
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const start = vi.fn(async ({ provider }: ModelSelection) => {
+      throw provider === 'Anthropic' ? error : new Error(`${provider} is down`);
+    });
+
+    await expect(withFailover(chain, start)).rejects.toBe(error);
+    expect(start).toHaveBeenCalledTimes(3);
+
+    const logged = log.mock.calls.map((args) => args.join(' ')).join('\n');
+
+    expect(logged).toContain('Anthropic/claude-3-5-sonnet-latest failed: rate limited');
+    expect(logged).toContain('OpenAI/gpt-4o failed: OpenAI is down');
+    expect(logged).toContain('Ollama/qwen2.5-coder:7b failed: Ollama is down');
+
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,130 @@
+import { APICallError, RetryError } from 'ai';
+import type { ProviderEnv } from '~/lib/providers';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Failover');
+
+export interface ModelSelection {
+  provider: string;
+  model: string;
+}
+
+export interface FailedAttempt extends ModelSelection {
+  reason: string;
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  selection: ModelSelection;
+  failedAttempts: FailedAttempt[];
+}
+
+/**
+ * Parses a comma separated list of `Provider:model` entries, e.g.
+ * `OpenRouter:anthropic/claude-3.5-sonnet,Ollama:qwen2.5-coder:7b`.
+ *
+ * Only the first colon separates the provider because model names (e.g. Ollama tags) can contain colons.
+ */
+export function parseFallbackChain(value: string | undefined): ModelSelection[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.includes(':'))
+    .map((entry) => {
+      const separatorIndex = entry.indexOf(':');
+
+      return {
+        provider: entry.slice(0, separatorIndex).trim(),
+        model: entry.slice(separatorIndex + 1).trim(),
+      };
+    })
+    .filter(({ provider, model }) => provider && model);
+}
+
+export function getFallbackChain(env: ProviderEnv) {
+  return parseFallbackChain(env('PROVIDER_FALLBACK_CHAIN'));
+}
+
+/**
+ * Whether it makes sense to retry the request with another provider. We only fail over on errors the
+ * user can't fix by changing the request, i.e. rate limits, overloaded or unreachable providers.
+ */
+export function isFailoverError(error: unknown): boolean {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+
+  if (APICallError.isInstance(cause)) {
+    return cause.isRetryable;
+  }
+
+  return isNetworkError(cause);
+}
+
+// error codes of Node.js for connections that fail, e.g. in the `cause` of a `fetch failed` error
+const networkErrorCodes = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND']);
+
+/**
+ * Errors thrown by `fetch` if the provider can't be reached at all, e.g. a local Ollama that isn't running.
+ * Other errors, e.g. a `TypeError` of a bug, aren't network errors even though `fetch` throws `TypeError`s too.
+ */
+export function isNetworkError(error: unknown) {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const { cause } = error as { cause?: { code?: unknown } };
+
+  return (
+    /fetch failed|ECONNREFUSED|ECONNRESET|ENOTFOUND/i.test(error.message) || networkErrorCodes.has(String(cause?.code))
+  );
+}
+
+/**
+ * Starts the request with the first model and moves on to the next model of the chain if starting the
+ * stream fails. Once a stream has started (the provider accepted the request) we stick with that model.
+ *
+ * The requested model only fails over on errors the user can't fix (see `isFailoverError`), models of
+ * the fallback chain are skipped on any error, e.g. when no API key is configured for them. If no model
+ * answers, the error of the requested model is rethrown.
+ */
+export async function withFailover<T>(
+  chain: ModelSelection[],
+  start: (selection: ModelSelection) => Promise<T>,
+): Promise<FailoverResult<T>> {
+  const failedAttempts: FailedAttempt[] = [];
+  let firstError: unknown;
+
+  for (const [index, selection] of dedupeSelections(chain).entries()) {
+    try {
+      const result = await start(selection);
+
+      return { result, selection, failedAttempts };
+    } catch (error) {
+      if (index === 0) {
+        firstError = error;
+
+        if (!isFailoverError(error)) {
+          throw error;
+        }
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+
+      logger.warn(`${selection.provider}/${selection.model} failed: ${reason}`);
+
+      failedAttempts.push({ ...selection, reason });
+    }
+  }
+
+  throw firstError ?? new Error('No model to send the request to');
+}
+
+function dedupeSelections(chain: ModelSelection[]) {
+  return chain.filter(
+    (selection, index) =>
+      chain.findIndex(({ provider, model }) => provider === selection.provider && model === selection.model) === index,
+  );
+}
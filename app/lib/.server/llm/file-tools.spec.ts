@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createFileTools } from './file-tools';
+
+const tools = createFileTools({
+  'package.json': '{\n  "name": "todo-app"\n}',
+  'src/App.tsx': 'export function App() {\n  return <TodoList />;\n}',
+  'src/components/TodoList.tsx': 'export function TodoList() {\n  return null;\n}',
+});
+
+describe('createFileTools', () => {
+  it('should list files inside a directory', async () => {
+    expect(await tools.list_files.execute({})).toEqual({
+      files: ['package.json', 'src/App.tsx', 'src/components/TodoList.tsx'],
+      truncated: false,
+    });
+
+    expect(await tools.list_files.execute({ path: './src/components/' })).toEqual({
+      files: ['src/components/TodoList.tsx'],
+      truncated: false,
+    });
+  });
+
+  it('should read files with absolute or relative paths', async () => {
+    expect(await tools.read_file.execute({ path: '/home/project/package.json' })).toEqual({
+      path: 'package.json',
+      content: '{\n  "name": "todo-app"\n}',
+    });
+
+    expect(await tools.read_file.execute({ path: 'missing.ts' })).toEqual({ error: 'File not found: missing.ts' });
+  });
+
+  it('should grep for regular expressions and plain strings', async () => {
+    expect(await tools.grep.execute({ pattern: 'function \\w+\\(' })).toEqual({
+      matches: [
+        { path: 'src/App.tsx', line: 1, text: 'export function App() {' },
+        { path: 'src/components/TodoList.tsx', line: 1, text: 'export function TodoList() {' },
+      ],
+      truncated: false,
+    });
+
+    expect(await tools.grep.execute({ pattern: '<TodoList />', path: 'src' })).toEqual({
+      matches: [{ path: 'src/App.tsx', line: 2, text: 'return <TodoList />;' }],
+      truncated: false,
+    });
+
+    expect(await tools.grep.execute({ pattern: 'App(' })).toMatchObject({
+      matches: [{ path: 'src/App.tsx', line: 1 }],
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { FileSnapshot, FileToolName } from '~/types/tools';
+import { WORK_DIR } from '~/utils/constants';
+
+const MAX_LISTED_FILES = 500;
+const MAX_GREP_MATCHES = 100;
+const MAX_GREP_LINE_LENGTH = 200;
+
+function normalizePath(path = '') {
+  return path
+    .trim()
+    .replace(new RegExp(`^${WORK_DIR}/?`), '')
+    .replace(/^\.?\/+/, '')
+    .replace(/\/+$/, '');
+}
+
+function isInside(filePath: string, directory: string) {
+  return directory === '' || filePath === directory || filePath.startsWith(`${directory}/`);
+}
+
+function createPattern(pattern: string) {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    // models often pass plain strings with special characters
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+}
+
+/**
+ * Read-only tools that are answered from the snapshot of the project the client sent with the request.
+ */
+export function createFileTools(snapshot: FileSnapshot) {
+  const filePaths = Object.keys(snapshot).sort();
+
+  return {
+    list_files: tool({
+      description: 'List the files of the project, optionally only those inside the given directory.',
+      parameters: z.object({
+        path: z.string().optional().describe('Directory relative to the project root, defaults to the root'),
+      }),
+      execute: async ({ path }) => {
+        const directory = normalizePath(path);
+        const files = filePaths.filter((filePath) => isInside(filePath, directory));
+
+        return {
+          files: files.slice(0, MAX_LISTED_FILES),
+          truncated: files.length > MAX_LISTED_FILES,
+        };
+      },
+    }),
+    read_file: tool({
+      description: 'Read the current content of a file of the project.',
+      parameters: z.object({
+        path: z.string().describe('Path of the file relative to the project root'),
+      }),
+      execute: async ({ path }) => {
+        const filePath = normalizePath(path);
+
+        if (!(filePath in snapshot)) {
+          return { error: `File not found: ${filePath}` };
+        }
+
+        return { path: filePath, content: snapshot[filePath] };
+      },
+    }),
+    grep: tool({
+      description: 'Search the files of the project for a regular expression (case insensitive).',
+      parameters: z.object({
+        pattern: z.string().describe('Regular expression to search for'),
+        path: z.string().optional().describe('Only search files inside this directory'),
+      }),
+      execute: async ({ pattern, path }) => {
+        const directory = normalizePath(path);
+        const regex = createPattern(pattern);
+        const matches: Array<{ path: string; line: number; text: string }> = [];
+
+        for (const filePath of filePaths) {
+          if (!isInside(filePath, directory)) {
+            continue;
+          }
+
+          const lines = snapshot[filePath].split('\n');
+
+          for (const [index, text] of lines.entries()) {
+            if (matches.length >= MAX_GREP_MATCHES) {
+              return { matches, truncated: true };
+            }
+
+            if (regex.test(text)) {
+              matches.push({ path: filePath, line: index + 1, text: text.trim().slice(0, MAX_GREP_LINE_LENGTH) });
+            }
+          }
+        }
+
+        return { matches, truncated: false };
+      },
+    }),
+  } satisfies Record<FileToolName, unknown>;
+}
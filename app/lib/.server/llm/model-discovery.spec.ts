@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MODEL_LIST } from '~/utils/constants';
+import { clearModelCache, discoverModels } from './model-discovery';
+
+const env = {} as Env;
+
+function stubFetch() {
+  const fetch = vi.fn(async (url: string) => {
+    if (url.startsWith('https://openrouter.ai')) {
+      return Response.json({
+        data: [
+          {
+            id: 'test/model',
+            name: 'Test Model',
+            context_length: 8192,
+            pricing: { prompt: '0', completion: '0' },
+          },
+        ],
+      });
+    }
+
+    throw new TypeError('fetch failed', { cause: new Error('connect ECONNREFUSED') });
+  });
+
+  vi.stubGlobal('fetch', fetch);
+
+  return fetch;
+}
+
+describe('discoverModels', () => {
+  afterEach(() => {
+    clearModelCache();
+    vi.unstubAllGlobals();
+  });
+
+  it('should report the status of each provider', async () => {
+    stubFetch();
+
+    const { models, providers } = await discoverModels(env, { userApiKeys: { Anthropic: 'key' } });
+
+    expect(models.map((model) => model.name)).toEqual(['test/model']);
+
+    // the models can depend on the user's keys, so they aren't shared through the global list
+    expect(MODEL_LIST.some((model) => model.name === 'test/model')).toBe(false);
+
+    expect(providers.find((status) => status.name === 'Anthropic')).toMatchObject({ configured: true });
+    expect(providers.find((status) => status.name === 'OpenRouter')).toMatchObject({ reachable: true });
+    expect(providers.find((status) => status.name === 'Ollama')).toMatchObject({
+      configured: true,
+      reachable: false,
+      error: 'fetch failed: connect ECONNREFUSED',
+    });
+  });
+
+  it('should answer from the cache unless forced', async () => {
+    const fetch = stubFetch();
+
+    await discoverModels(env);
+
+    const requests = fetch.mock.calls.length;
+
+    await discoverModels(env);
+    expect(fetch).toHaveBeenCalledTimes(requests);
+
+    await discoverModels(env, { force: true });
+    expect(fetch).toHaveBeenCalledTimes(requests * 2);
+  });
+
+  it('should cache the models per API key', async () => {
+    const fetch = stubFetch();
+    const openRouterRequests = () => fetch.mock.calls.filter(([url]) => url.startsWith('https://openrouter.ai')).length;
+
+    await discoverModels(env, { userApiKeys: { OpenRouter: 'first' } });
+    await discoverModels(env, { userApiKeys: { OpenRouter: 'second' } });
+    expect(openRouterRequests()).toBe(2);
+
+    await discoverModels(env, { userApiKeys: { OpenRouter: 'first' } });
+    expect(openRouterRequests()).toBe(2);
+  });
+});
@@ -0,0 +1,164 @@
+import { getProviderApiKey, getProviderBaseUrl, PROVIDERS, type ProviderAdapter } from '~/lib/providers';
+import type { ProviderStatus } from '~/types/model';
+import { createScopedLogger } from '~/utils/logger';
+import type { ModelInfo } from '~/utils/types';
+import { getProviderEnv } from './api-key';
+
+const logger = createScopedLogger('ModelDiscovery');
+
+// how long the models of a provider are cached, failures are retried sooner
+export const MODEL_CACHE_TTL = 5 * 60 * 1000;
+export const FAILED_MODEL_CACHE_TTL = 30 * 1000;
+
+// local providers that aren't running shouldn't block page loads
+export const MODEL_DISCOVERY_TIMEOUT = 5000;
+
+interface CacheEntry {
+  models: ModelInfo[];
+  status: ProviderStatus;
+  expiresAt: number;
+}
+
+export interface DiscoveredModels {
+  models: ModelInfo[];
+  providers: ProviderStatus[];
+}
+
+export interface DiscoverModelsOptions {
+  userApiKeys?: Record<string, string>;
+
+  /**
+   * Ignores cached results, e.g. after the user started a local provider.
+   */
+  force?: boolean;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Requests the models of all providers with a dynamic model list and reports whether each provider is
+ * usable. Results are cached per provider, base URL and API key so that page loads don't hit every provider.
+ *
+ * The models can depend on the user's API keys, so they are returned instead of being added to `MODEL_LIST`.
+ */
+export async function discoverModels(
+  cloudflareEnv: Env,
+  options: DiscoverModelsOptions = {},
+): Promise<DiscoveredModels> {
+  const env = getProviderEnv(cloudflareEnv);
+
+  const results = await Promise.all(
+    PROVIDERS.map((provider) => {
+      const apiKey = getProviderApiKey(provider, env, options.userApiKeys);
+      const baseUrl = getProviderBaseUrl(provider, env);
+
+      return discoverProviderModels(provider, { apiKey, baseUrl, force: options.force });
+    }),
+  );
+
+  return {
+    models: results.flatMap((result) => result.models),
+    providers: results.map((result) => result.status),
+  };
+}
+
+export function clearModelCache() {
+  cache.clear();
+}
+
+async function discoverProviderModels(
+  provider: ProviderAdapter,
+  options: { apiKey: string; baseUrl: string; force?: boolean },
+): Promise<Omit<CacheEntry, 'expiresAt'>> {
+  const { apiKey, baseUrl, force } = options;
+
+  const configured = isConfigured(provider, apiKey, baseUrl);
+  const checkedAt = new Date().toISOString();
+
+  if (!provider.getDynamicModels || !baseUrlAvailable(provider, baseUrl)) {
+    return { models: [], status: { name: provider.name, configured, checkedAt } };
+  }
+
+  // the models and the status depend on the key, e.g. an invalid key fails the request
+  const cacheKey = `${provider.name}:${baseUrl}:${await hashApiKey(apiKey)}`;
+  const cached = cache.get(cacheKey);
+
+  if (!force && cached && cached.expiresAt > Date.now()) {
+    return { models: cached.models, status: cached.status };
+  }
+
+  const start = Date.now();
+
+  try {
+    const models = await provider.getDynamicModels({
+      apiKey,
+      baseUrl,
+      signal: AbortSignal.timeout(MODEL_DISCOVERY_TIMEOUT),
+    });
+
+    const status: ProviderStatus = {
+      name: provider.name,
+      configured,
+      reachable: true,
+      latencyMs: Date.now() - start,
+      checkedAt,
+    };
+
+    cache.set(cacheKey, { models, status, expiresAt: Date.now() + MODEL_CACHE_TTL });
+
+    return { models, status };
+  } catch (error) {
+    const message = getDiscoveryErrorMessage(error);
+
+    logger.warn(`Failed to list the models of ${provider.name}: ${message}`);
+
+    const status: ProviderStatus = {
+      name: provider.name,
+      configured,
+      reachable: false,
+      error: message,
+      latencyMs: Date.now() - start,
+      checkedAt,
+    };
+
+    cache.set(cacheKey, { models: [], status, expiresAt: Date.now() + FAILED_MODEL_CACHE_TTL });
+
+    return { models: [], status };
+  }
+}
+
+async function hashApiKey(apiKey: string) {
+  if (!apiKey) {
+    return '';
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isConfigured(provider: ProviderAdapter, apiKey: string, baseUrl: string) {
+  if (provider.capabilities.requiresApiKey && !apiKey) {
+    return false;
+  }
+
+  return baseUrlAvailable(provider, baseUrl);
+}
+
+// providers without a default base URL (OpenAILike) can only be used once it is configured
+function baseUrlAvailable(provider: ProviderAdapter, baseUrl: string) {
+  return !provider.envKeys.baseUrl || !!baseUrl;
+}
+
+function getDiscoveryErrorMessage(error: unknown) {
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return `No response within ${MODEL_DISCOVERY_TIMEOUT / 1000}s`;
+  }
+
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+
+  // `fetch failed` alone doesn't tell whether the provider isn't running or the host is unknown
+  return error.cause instanceof Error ? `${error.message}: ${error.cause.message}` : error.message;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ENHANCER_FILES, MAX_ENHANCER_PACKAGE_JSON_LENGTH } from './constants';
+import { getEnhancerPrompt } from './prompts';
+
+describe('getEnhancerPrompt', () => {
+  it('should leave out the project without context', () => {
+    const prompt = getEnhancerPrompt('Add a login page', 'Make it specific.');
+
+    expect(prompt).toContain('Make it specific.');
+    expect(prompt).toContain('<original_prompt>\nAdd a login page\n</original_prompt>');
+    expect(prompt).not.toContain('<project>');
+  });
+
+  it('should truncate the files and the package.json of large projects', () => {
+    const files = Array.from({ length: MAX_ENHANCER_FILES + 5 }, (_, index) => `src/file-${index}.ts`);
+    const packageJson = `{"name":"app"}${' '.repeat(MAX_ENHANCER_PACKAGE_JSON_LENGTH)}"end"`;
+
+    const prompt = getEnhancerPrompt('Add a login page', 'Make it specific.', { files, packageJson });
+
+    expect(prompt).toContain(`src/file-${MAX_ENHANCER_FILES - 1}.ts\n... and 5 more files\n</files>`);
+    expect(prompt).not.toContain(`src/file-${MAX_ENHANCER_FILES}.ts`);
+    expect(prompt).toContain('<package_json>\n{"name":"app"}');
+    expect(prompt).not.toContain('"end"');
+  });
+
+  it('should not mention omitted files if all of them fit', () => {
+    const prompt = getEnhancerPrompt('Add a login page', 'Make it specific.', { files: ['src/App.tsx'] });
+
+    expect(prompt).toContain('<files>\nsrc/App.tsx\n</files>');
+    expect(prompt).not.toContain('more files');
+    expect(prompt).not.toContain('<package_json>');
+  });
+});
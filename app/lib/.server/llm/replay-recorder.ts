@@ -0,0 +1,119 @@
+import {
+  experimental_wrapLanguageModel as wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import type { ReplayFixture, ReplaySegment } from '~/lib/providers/replay';
+import { createScopedLogger } from '~/utils/logger';
+import { CONTINUE_PROMPT } from './prompts';
+
+const logger = createScopedLogger('ReplayRecorder');
+
+interface Recording {
+  fileName: string;
+  fixture: ReplayFixture;
+}
+
+// recordings of turns that may still be continued, keyed by the user message that started them
+const recordings = new Map<string, Recording>();
+
+function getText(message: LanguageModelV1Prompt[number]) {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+
+  return message.content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/**
+ * Finds the user message that started the current turn and the number of continuations since then.
+ */
+function getTurn(prompt: LanguageModelV1Prompt) {
+  const userMessages = prompt.filter((message) => message.role === 'user').map(getText);
+
+  let continuations = 0;
+
+  while (continuations < userMessages.length && userMessages.at(-1 - continuations) === CONTINUE_PROMPT) {
+    continuations++;
+  }
+
+  return { key: userMessages.at(-1 - continuations) ?? '', segmentIndex: continuations };
+}
+
+function createFileName(text: string) {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+
+  return `${slug || 'recording'}-${Date.now()}.json`;
+}
+
+async function writeRecording(directory: string, { fileName, fixture }: Recording) {
+  // imported lazily because the file system is only available when running in Node.js
+  const { mkdir, writeFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(join(directory, fileName), `${JSON.stringify(fixture, null, 2)}\n`);
+
+  logger.info(`Recorded segment ${fixture.segments.length} to ${join(directory, fileName)}`);
+}
+
+/**
+ * Wraps a model so that its responses are written to `directory` in the fixture format of the
+ * Replay provider. Continuation segments are appended to the fixture of the turn they continue. The Replay
+ * provider only loads the fixtures in `app/lib/providers/fixtures`, `directory` is relative to the project root.
+ */
+export function withReplayRecorder(model: LanguageModelV1, directory: string): LanguageModelV1 {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      async wrapStream({ doStream, params }) {
+        const { stream, ...rest } = await doStream();
+        const { key, segmentIndex } = getTurn(params.prompt);
+
+        let text = '';
+
+        const recorder = new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            if (part.type === 'text-delta') {
+              text += part.textDelta;
+            }
+
+            if (part.type === 'finish') {
+              const segment: ReplaySegment = {
+                text,
+                finishReason: part.finishReason === 'length' ? 'length' : 'stop',
+                usage: part.usage,
+              };
+
+              let recording = recordings.get(key);
+
+              if (!recording || segmentIndex === 0) {
+                recording = { fileName: createFileName(key), fixture: { title: key.slice(0, 60), segments: [] } };
+              }
+
+              recording.fixture.segments[segmentIndex] = segment;
+
+              if (segment.finishReason === 'length') {
+                recordings.set(key, recording);
+              } else {
+                recordings.delete(key);
+              }
+
+              writeRecording(directory, recording).catch((error) => logger.error('Failed to write recording', error));
+            }
+
+            controller.enqueue(part);
+          },
+        });
+
+        return { stream: stream.pipeThrough(recorder), ...rest };
+      },
+    },
+  });
+}
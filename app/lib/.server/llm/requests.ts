@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { IMAGE_CONTENT_TYPES, MAX_IMAGE_ATTACHMENTS, MAX_IMAGE_DATA_URL_LENGTH } from '~/utils/attachments';
+import { MAX_ENHANCER_INSTRUCTIONS_LENGTH } from '~/utils/enhancer';
+import { generationSettingsSchema } from '~/utils/generation';
+import { ChatError } from './errors';
+
+// images are sent inline, remote URLs would let the server fetch arbitrary addresses
+const imageAttachmentSchema = z
+  .object({
+    name: z.string().optional(),
+    contentType: z.enum(IMAGE_CONTENT_TYPES as [string, ...string[]]),
+    url: z
+      .string()
+      .max(MAX_IMAGE_DATA_URL_LENGTH, 'The image is too large')
+      .regex(/^data:image\/[a-z]+;base64,/, 'Expected a base64 data URL'),
+  })
+  .refine(
+    ({ contentType, url }) => url.startsWith(`data:${contentType};`),
+    'The data URL does not match the content type',
+  );
+
+const messageSchema = z
+  .object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+    experimental_attachments: z.array(imageAttachmentSchema).max(MAX_IMAGE_ATTACHMENTS).optional(),
+  })
+  .passthrough();
+
+export const chatRequestSchema = z.object({
+  messages: z.array(messageSchema).min(1),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  generationSettings: generationSettingsSchema.optional(),
+  maxHistoryMessages: z.number().int().positive().optional(),
+  toolCalling: z.boolean().optional(),
+  files: z.record(z.string()).optional(),
+  rules: z.object({ project: z.string(), global: z.string() }).partial().optional(),
+});
+
+export const enhancerRequestSchema = z.object({
+  message: z.string().min(1),
+  provider: z.string().min(1),
+  model: z.string().min(1),
+
+  // id of a built-in preset, user-defined presets send their instructions instead
+  preset: z.string().optional(),
+  instructions: z.string().max(MAX_ENHANCER_INSTRUCTIONS_LENGTH).optional(),
+  project: z.object({ files: z.array(z.string()), packageJson: z.string().optional() }).optional(),
+});
+
+export const storeApiKeyRequestSchema = z.object({
+  provider: z.string().min(1),
+  key: z.string().trim().min(1),
+});
+
+export const revokeApiKeyRequestSchema = z.object({
+  provider: z.string().min(1),
+});
+
+/**
+ * Parses the JSON body of a request and throws a `bad_request` error that names the invalid field.
+ */
+export async function parseRequestBody<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    throw new ChatError('bad_request', 'The request body is not valid JSON');
+  }
+
+  const result = schema.safeParse(body);
+
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+
+    throw new ChatError('bad_request', `Invalid request, ${field}${issue.message}`);
+  }
+
+  return result.data;
+}
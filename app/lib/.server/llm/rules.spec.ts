@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_RULES_LENGTH } from './constants';
+import { normalizeRules } from './rules';
+
+describe('normalizeRules', () => {
+  it('should trim the rules and drop empty or invalid ones', () => {
+    expect(normalizeRules(undefined)).toEqual({});
+    expect(normalizeRules('Use tabs')).toEqual({});
+    expect(normalizeRules({ project: '  Use tabs\n', global: ' ' })).toEqual({ project: 'Use tabs' });
+    expect(normalizeRules({ project: 42, global: 'Answer in German' })).toEqual({ global: 'Answer in German' });
+  });
+
+  it('should truncate rules that are too long', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { project } = normalizeRules({ project: ` ${'a'.repeat(MAX_RULES_LENGTH)}b` });
+
+    expect(project).toBe('a'.repeat(MAX_RULES_LENGTH));
+
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,46 @@
+import type { ChatRules } from '~/types/rules';
+import { createScopedLogger } from '~/utils/logger';
+import { MAX_RULES_LENGTH } from './constants';
+
+const logger = createScopedLogger('Rules');
+
+function normalizeRule(name: string, value: unknown) {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const rule = value.trim();
+
+  if (rule.length > MAX_RULES_LENGTH) {
+    logger.warn(`${name} rules exceed ${MAX_RULES_LENGTH} characters and were truncated`);
+
+    return rule.slice(0, MAX_RULES_LENGTH);
+  }
+
+  return rule;
+}
+
+/**
+ * Validates the rules sent by the client and keeps them from taking over the context window.
+ */
+export function normalizeRules(rules: unknown): ChatRules {
+  if (typeof rules !== 'object' || rules === null) {
+    return {};
+  }
+
+  const { project, global } = rules as Record<string, unknown>;
+
+  const normalized: ChatRules = {};
+  const normalizedProject = normalizeRule('Project', project);
+  const normalizedGlobal = normalizeRule('Global', global);
+
+  if (normalizedProject) {
+    normalized.project = normalizedProject;
+  }
+
+  if (normalizedGlobal) {
+    normalized.global = normalizedGlobal;
+  }
+
+  return normalized;
+}
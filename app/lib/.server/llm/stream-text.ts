@@ -1,10 +1,21 @@
 // @ts-nocheck
 // Preventing TS checks with files presented in the video for a better presentation.
-import { streamText as _streamText, convertToCoreMessages } from 'ai';
+import { streamText as _streamText, convertToCoreMessages, type Attachment } from 'ai';
+import { getProviderEnv } from '~/lib/.server/llm/api-key';
 import { getModel } from '~/lib/.server/llm/model';
-import { MAX_TOKENS } from './constants';
-import { getSystemPrompt } from './prompts';
-import { MODEL_LIST, DEFAULT_MODEL, DEFAULT_PROVIDER, MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import { fitMessagesToContext, keepRecentMessages } from './context-window';
+import { ChatError } from './errors';
+import { getFallbackChain, withFailover, type FailedAttempt } from './failover';
+import { createFileTools } from './file-tools';
+import { getFileToolsInstructions, getRulesInstructions, getSystemPrompt, getToolCallingSystemPrompt } from './prompts';
+import { boltTools, MAX_TOOL_STEPS, toolInvocationsToArtifact } from './tools';
+import type { GenerationSettings } from '~/types/generation';
+import type { ChatRules } from '~/types/rules';
+import { FILE_TOOL_NAMES, type FileSnapshot } from '~/types/tools';
+import { MODEL_LIST, DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
+import { getMaxTokens } from '~/utils/generation';
+import { getModelInfo } from '~/utils/models';
+import type { ModelInfo } from '~/utils/types';
 
 interface ToolResult<Name extends string, Args, Result> {
   toolCallId: string;
@@ -17,61 +28,201 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   toolInvocations?: ToolResult<string, unknown, unknown>[];
+  experimental_attachments?: Attachment[];
   model?: string;
 }
 
 export type Messages = Message[];
 
-export type StreamingOptions = Omit<Parameters<typeof _streamText>[0], 'model'>;
+export type StreamingOptions = Omit<Parameters<typeof _streamText>[0], 'model'> & {
+  /**
+   * The provider and model selected by the user, `DEFAULT_PROVIDER` and `DEFAULT_MODEL` if not set.
+   */
+  provider?: string;
+  model?: string;
+
+  /**
+   * Lets the model make changes through tools instead of artifacts if the provider supports it.
+   */
+  toolCalling?: boolean;
+
+  /**
+   * Snapshot of the project, enables the read-only file tools if the provider supports tool calling.
+   */
+  files?: FileSnapshot;
+
+  /**
+   * Project and global rules, added to the system prompt.
+   */
+  rules?: ChatRules;
+
+  /**
+   * Validated sampling options of the chat, see `generationSettingsSchema`.
+   */
+  generationSettings?: GenerationSettings;
+
+  /**
+   * Drops older messages up front, set when the user retries after the context window overflowed.
+   */
+  maxHistoryMessages?: number;
+
+  /**
+   * Models the request may use, including the ones discovered with the user's API keys. `MODEL_LIST` if not set.
+   */
+  models?: ModelInfo[];
+};
+
+/**
+ * Results of the file tools are outdated after the response that used them, so they aren't kept in the history.
+ */
+function removeFileToolInvocations(message: Message): Message {
+  if (!message.toolInvocations?.length) {
+    return message;
+  }
+
+  return {
+    ...message,
+    toolInvocations: message.toolInvocations.filter(({ toolName }) => !FILE_TOOL_NAMES.includes(toolName)),
+  };
+}
+
+function flattenToolInvocations(message: Message, index: number): Message {
+  if (!message.toolInvocations?.length) {
+    return message;
+  }
+
+  const { toolInvocations, ...rest } = message;
+
+  return { ...rest, content: `${message.content}\n\n${toolInvocationsToArtifact(`tools-${index}`, toolInvocations)}` };
+}
+
+function isImageAttachment({ contentType }: Attachment) {
+  return Boolean(contentType?.startsWith('image/'));
+}
 
-function extractPropertiesFromMessage(message: Message): { model: string; provider: string; content: string } {
-  // Extract model
-  const modelMatch = message.content.match(MODEL_REGEX);
-  const model = modelMatch ? modelMatch[1] : DEFAULT_MODEL;
+function hasImageAttachments(message: Message) {
+  return Boolean(message.experimental_attachments?.some(isImageAttachment));
+}
+
+/**
+ * Images of earlier messages can't be sent to a model without vision, they are replaced with a note so the
+ * model knows the user shared them.
+ */
+function removeImageAttachments(message: Message): Message {
+  if (!hasImageAttachments(message)) {
+    return message;
+  }
 
-  // Extract provider
-  const providerMatch = message.content.match(PROVIDER_REGEX);
-  const provider = providerMatch ? providerMatch[1] : DEFAULT_PROVIDER;
+  const attachments = message.experimental_attachments.filter((attachment) => !isImageAttachment(attachment));
+  const images = message.experimental_attachments.length - attachments.length;
+
+  return {
+    ...message,
+    content: `${message.content}\n\n[${images} image${images === 1 ? '' : 's'} omitted, this model doesn't accept images]`,
+    experimental_attachments: attachments.length > 0 ? attachments : undefined,
+  };
+}
 
-  // Remove model and provider lines from content
-  const cleanedContent = message.content
-    .replace(MODEL_REGEX, '')
-    .replace(PROVIDER_REGEX, '')
-    .trim();
+export interface StreamTextResponse {
+  result: Awaited<ReturnType<typeof _streamText>>;
 
-  return { model, provider, content: cleanedContent };
+  /**
+   * The provider and model that answered, which differ from the requested ones after a failover.
+   */
+  provider: string;
+  model: string;
+  failedAttempts: FailedAttempt[];
 }
 
-export function streamText(
-  messages: Messages, 
-  env: Env, 
+export async function streamText(
+  messages: Messages,
+  env: Env,
   options?: StreamingOptions,
-  apiKeys?: Record<string, string>
-) {
-  let currentModel = DEFAULT_MODEL;
-  let currentProvider = DEFAULT_PROVIDER;
+  apiKeys?: Record<string, string>,
+): Promise<StreamTextResponse> {
+  const {
+    provider: currentProvider = DEFAULT_PROVIDER.name,
+    model: requestedModel,
+    toolCalling = false,
+    files,
+    rules = {},
+    generationSettings = {},
+    maxHistoryMessages,
+    models = MODEL_LIST,
+    ...streamOptions
+  } = options ?? {};
+
+  const currentModel = models.find((m) => m.name === requestedModel) ? requestedModel : DEFAULT_MODEL;
+
+  const recentMessages = maxHistoryMessages ? keepRecentMessages(messages, maxHistoryMessages) : messages;
+  const processedMessages = recentMessages.map(removeFileToolInvocations);
+
+  // images of earlier messages are dropped for models without vision, see `removeImageAttachments`
+  const latestUserMessage = processedMessages.filter(({ role }) => role === 'user').at(-1);
+  const hasImages = latestUserMessage !== undefined && hasImageAttachments(latestUserMessage);
+
+  if (hasImages && !getModelInfo(currentProvider, currentModel, models).vision) {
+    throw new ChatError('bad_request', `${currentModel} doesn't accept images, switch to a model with vision support`, {
+      provider: currentProvider,
+      model: currentModel,
+    });
+  }
 
-  const processedMessages = messages.map((message) => {
-    if (message.role === 'user') {
-      const { model, provider, content } = extractPropertiesFromMessage(message);
+  const chain = [
+    { provider: currentProvider, model: currentModel },
 
-      if (MODEL_LIST.find((m) => m.name === model)) {
-        currentModel = model;
-      }
+    // falling back to a text-only model would fail the same way
+    ...getFallbackChain(getProviderEnv(env)).filter(({ provider, model }) => {
+      return !hasImages || getModelInfo(provider, model, models).vision;
+    }),
+  ];
 
-      currentProvider = provider;
+  const { result, selection, failedAttempts } = await withFailover(chain, ({ provider, model }) => {
+    const modelInfo = getModelInfo(provider, model, models);
 
-      return { ...message, content };
+    // the fallback chain may contain models without tool support, so this is decided per model
+    const supportsTools = modelInfo.toolCalling;
+    const useTools = toolCalling && supportsTools;
+    const useFileTools = files !== undefined && supportsTools;
+
+    let systemPrompt = useTools ? getToolCallingSystemPrompt() : getSystemPrompt();
+
+    if (useFileTools) {
+      systemPrompt += `\n${getFileToolsInstructions()}`;
     }
 
-    return message; // No changes for non-user messages
-  });
+    systemPrompt += getRulesInstructions(rules);
+
+    const supportedMessages = modelInfo.vision ? processedMessages : processedMessages.map(removeImageAttachments);
+    const history = useTools ? supportedMessages : supportedMessages.map(flattenToolInvocations);
 
-  return _streamText({
-    model: getModel(currentProvider, currentModel, env, apiKeys),
-    system: getSystemPrompt(),
-    maxTokens: MAX_TOKENS,
-    messages: convertToCoreMessages(processedMessages),
-    ...options,
+    // the requested limit may exceed the limit of a model from the fallback chain
+    const maxTokens = getMaxTokens(generationSettings, modelInfo.maxOutputTokens);
+
+    const contextMessages = fitMessagesToContext(history, {
+      contextLength: modelInfo.contextLength,
+      maxOutputTokens: maxTokens,
+      systemPrompt,
+    });
+
+    const tools = {
+      ...(useFileTools ? createFileTools(files) : {}),
+      ...(useTools ? boltTools : {}),
+    };
+
+    return _streamText({
+      model: getModel(provider, model, env, apiKeys),
+      system: systemPrompt,
+      maxTokens,
+      temperature: generationSettings.temperature,
+      topP: generationSettings.topP,
+      seed: generationSettings.seed,
+      // image attachments become image parts next to the text of their message
+      messages: convertToCoreMessages(contextMessages),
+      ...streamOptions,
+      ...(useTools || useFileTools ? { tools, toolChoice: 'auto', maxSteps: MAX_TOOL_STEPS } : {}),
+    });
   });
+
+  return { result, ...selection, failedAttempts };
 }
@@ -1,6 +1,7 @@
 export default class SwitchableStream extends TransformStream {
   private _controller: TransformStreamDefaultController | null = null;
   private _currentReader: ReadableStreamDefaultReader | null = null;
+  private _currentPump: Promise<void> | null = null;
   private _switches = 0;
 
   constructor() {
@@ -26,7 +27,7 @@ export default class SwitchableStream extends TransformStream {
 
     this._currentReader = newStream.getReader();
 
-    this._pumpStream();
+    this._currentPump = this._pumpStream();
 
     this._switches++;
   }
@@ -52,12 +53,17 @@ export default class SwitchableStream extends TransformStream {
     }
   }
 
+  /**
+   * Terminates the stream once the current source has been forwarded completely, so parts that are
+   * written at the very end of a source (e.g. usage annotations) aren't lost.
+   */
   close() {
-    if (this._currentReader) {
-      this._currentReader.cancel();
+    if (!this._currentPump) {
+      this._controller?.terminate();
+      return;
     }
 
-    this._controller?.terminate();
+    this._currentPump.then(() => this._controller?.terminate());
   }
 
   get switches() {
@@ -0,0 +1,63 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { toolInvocationToAction } from '~/lib/runtime/tool-invocation-parser';
+import type { BoltToolName } from '~/types/tools';
+
+// limits the number of tool call round trips within a single response segment
+export const MAX_TOOL_STEPS = 10;
+
+/**
+ * The tools are executed in the WebContainer of the user, so on the server we can only acknowledge them.
+ */
+function acknowledge(message: string) {
+  return async () => ({ status: 'queued', message });
+}
+
+export const boltTools = {
+  write_file: tool({
+    description: 'Create or overwrite a file in the project with its full content.',
+    parameters: z.object({
+      path: z.string().describe('Path of the file relative to the project root'),
+      content: z.string().describe('The complete content of the file'),
+    }),
+    execute: acknowledge('The file will be written in the order of the tool calls.'),
+  }),
+  run_shell: tool({
+    description: 'Run a shell command in the project, e.g. to install dependencies.',
+    parameters: z.object({
+      command: z.string().describe('The command to run, chain multiple commands with &&'),
+    }),
+    execute: acknowledge('The command will run once all previous tool calls have been executed.'),
+  }),
+  start_server: tool({
+    description: 'Start the development server of the project. A running server picks up changes automatically.',
+    parameters: z.object({
+      command: z.string().describe('The command that starts the dev server, e.g. npm run dev'),
+    }),
+    execute: acknowledge('The dev server will start once all previous tool calls have been executed.'),
+  }),
+} satisfies Record<BoltToolName, unknown>;
+
+/**
+ * Rewrites the tool calls of earlier responses as artifacts, so the history stays meaningful for
+ * models that are prompted with the artifact format.
+ */
+export function toolInvocationsToArtifact(
+  messageId: string,
+  toolInvocations: Array<{ toolName: string; args: unknown }>,
+) {
+  const actions = toolInvocations
+    .map(({ toolName, args }) => toolInvocationToAction(toolName, args))
+    .filter((action) => action !== undefined)
+    .map((action) => {
+      const filePath = action.type === 'file' ? ` filePath="${action.filePath}"` : '';
+
+      return `<boltAction type="${action.type}"${filePath}>${action.content}</boltAction>`;
+    });
+
+  if (actions.length === 0) {
+    return '';
+  }
+
+  return `<boltArtifact id="${messageId}" title="Project Changes">\n${actions.join('\n')}\n</boltArtifact>`;
+}
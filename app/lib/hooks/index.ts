@@ -1,4 +1,7 @@
+export * from './useCompare';
+export * from './useFileMentions';
 export * from './useMessageParser';
 export * from './usePromptEnhancer';
+export * from './useRelevantFiles';
 export * from './useShortcuts';
 export * from './useSnapScroll';
@@ -0,0 +1,107 @@
+import { generateId, readDataStream, type Message } from 'ai';
+import { useCallback, useRef, useState } from 'react';
+import type { CompareCandidate, CompareResponse } from '~/types/compare';
+import { parseChatError } from '~/utils/errors';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Compare');
+
+/**
+ * Sends the same conversation to several models at once. The responses are only streamed into local state,
+ * nothing is applied to the workbench until the user picks one of them.
+ */
+export function useCompare() {
+  const [responses, setResponses] = useState<CompareResponse[]>([]);
+  const abortControllerRef = useRef<AbortController>();
+
+  const updateResponse = (id: string, update: (response: CompareResponse) => Partial<CompareResponse>) => {
+    setResponses((responses) => {
+      return responses.map((response) => (response.id === id ? { ...response, ...update(response) } : response));
+    });
+  };
+
+  const streamResponse = async (
+    response: CompareResponse,
+    messages: Message[],
+    body: Record<string, unknown>,
+    signal: AbortSignal,
+  ) => {
+    try {
+      const result = await fetch('/api/chat', {
+        method: 'POST',
+        body: JSON.stringify({ messages, ...body, provider: response.provider, model: response.model }),
+        signal,
+      });
+
+      if (!result.ok || !result.body) {
+        throw new Error(await result.text());
+      }
+
+      const parts = readDataStream(result.body.getReader(), { isAborted: () => signal.aborted });
+
+      for await (const { type, value } of parts) {
+        if (type === 'text') {
+          updateResponse(response.id, ({ content }) => ({ content: content + value }));
+        } else if (type === 'message_annotations') {
+          updateResponse(response.id, ({ annotations }) => ({ annotations: [...annotations, ...value] }));
+        } else if (type === 'error') {
+          throw new Error(value);
+        }
+      }
+
+      updateResponse(response.id, () => ({ status: 'done' }));
+    } catch (error) {
+      if (signal.aborted) {
+        updateResponse(response.id, () => ({ status: 'done' }));
+        return;
+      }
+
+      logger.error(`${response.model} failed`, error);
+
+      updateResponse(response.id, () => ({ status: 'error', error: parseChatError(error as Error) }));
+    }
+  };
+
+  const compare = useCallback(
+    async (messages: Message[], candidates: CompareCandidate[], body: Record<string, unknown>) => {
+      abortControllerRef.current?.abort();
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      const initialResponses = candidates.map(
+        (candidate): CompareResponse => ({
+          ...candidate,
+          id: generateId(),
+          content: '',
+          status: 'streaming',
+          annotations: [],
+        }),
+      );
+
+      setResponses(initialResponses);
+
+      await Promise.all(
+        initialResponses.map((response) => streamResponse(response, messages, body, abortController.signal)),
+      );
+    },
+    [],
+  );
+
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setResponses([]);
+  }, []);
+
+  return {
+    responses,
+    comparing: responses.some(({ status }) => status === 'streaming'),
+    compare,
+    stop,
+    reset,
+  };
+}
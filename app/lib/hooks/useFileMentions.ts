@@ -0,0 +1,89 @@
+import { useStore } from '@nanostores/react';
+import { useMemo, useState, type KeyboardEvent, type RefObject } from 'react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { getMentionQuery, getMentionSuggestions } from '~/utils/file-context';
+
+export type FileMentions = ReturnType<typeof useFileMentions>;
+
+/**
+ * Suggests files and folders of the project while the user types an `@path` mention in the prompt.
+ */
+export function useFileMentions(
+  textareaRef: RefObject<HTMLTextAreaElement>,
+  input: string,
+  setInput: (input: string) => void,
+) {
+  const files = useStore(workbenchStore.files);
+
+  // `undefined` closes the suggestions until the cursor moves again
+  const [cursor, setCursor] = useState<number>();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const query = cursor === undefined ? undefined : getMentionQuery(input, cursor);
+
+  const suggestions = useMemo(() => {
+    return query ? getMentionSuggestions(files, query.query) : [];
+  }, [files, query?.query]);
+
+  const updateCursor = (position: number) => {
+    if (position !== cursor) {
+      setCursor(position);
+      setSelectedIndex(0);
+    }
+  };
+
+  const select = (path: string) => {
+    if (!query || cursor === undefined) {
+      return;
+    }
+
+    const before = `${input.slice(0, query.start)}@${path} `;
+
+    setInput(`${before}${input.slice(cursor).trimStart()}`);
+    setCursor(undefined);
+
+    // the caret would otherwise jump to the end of the updated input
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  /**
+   * Returns `true` if the key was used to navigate the suggestions.
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) {
+      return false;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown': {
+        setSelectedIndex((index) => (index + 1) % suggestions.length);
+        break;
+      }
+      case 'ArrowUp': {
+        setSelectedIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+        break;
+      }
+      case 'Enter':
+      case 'Tab': {
+        select(suggestions[Math.min(selectedIndex, suggestions.length - 1)].path);
+        break;
+      }
+      case 'Escape': {
+        setCursor(undefined);
+        break;
+      }
+      default: {
+        return false;
+      }
+    }
+
+    event.preventDefault();
+
+    return true;
+  };
+
+  return { suggestions, selectedIndex, setSelectedIndex, select, updateCursor, handleKeyDown };
+}
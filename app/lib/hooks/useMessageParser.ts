@@ -1,47 +1,73 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
-import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { StreamingMessageParser, type ParserCallbacks } from '~/lib/runtime/message-parser';
+import { ToolInvocationParser } from '~/lib/runtime/tool-invocation-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { MODIFICATIONS_TAG_NAME } from '~/utils/constants';
+import { fileContextRegex } from '~/utils/file-context';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('useMessageParser');
 
-const messageParser = new StreamingMessageParser({
-  callbacks: {
-    onArtifactOpen: (data) => {
-      logger.trace('onArtifactOpen', data);
-
-      workbenchStore.showWorkbench.set(true);
-      workbenchStore.addArtifact(data);
-    },
-    onArtifactClose: (data) => {
-      logger.trace('onArtifactClose');
-
-      workbenchStore.updateArtifact(data, { closed: true });
-    },
-    onActionOpen: (data) => {
-      logger.trace('onActionOpen', data.action);
-
-      // we only add shell actions when when the close tag got parsed because only then we have the content
-      if (data.action.type !== 'shell') {
-        workbenchStore.addAction(data);
-      }
-    },
-    onActionClose: (data) => {
-      logger.trace('onActionClose', data.action);
+const MAX_TOOL_ARTIFACT_TITLE_LENGTH = 50;
 
-      if (data.action.type === 'shell') {
-        workbenchStore.addAction(data);
-      }
+const modificationsRegex = new RegExp(`<${MODIFICATIONS_TAG_NAME}>[\\s\\S]*?<\\/${MODIFICATIONS_TAG_NAME}>`);
+
+const callbacks: ParserCallbacks = {
+  onArtifactOpen: (data) => {
+    logger.trace('onArtifactOpen', data);
+
+    workbenchStore.showWorkbench.set(true);
+    workbenchStore.addArtifact(data);
+  },
+  onArtifactClose: (data) => {
+    logger.trace('onArtifactClose');
+
+    workbenchStore.updateArtifact(data, { closed: true });
+  },
+  onActionOpen: (data) => {
+    logger.trace('onActionOpen', data.action);
+
+    // we only add shell actions when when the close tag got parsed because only then we have the content
+    if (data.action.type !== 'shell') {
+      workbenchStore.addAction(data);
+    }
+  },
+  onActionClose: (data) => {
+    logger.trace('onActionClose', data.action);
 
-      workbenchStore.runAction(data);
-    },
-    onActionStream: (data) => {
-      logger.trace('onActionStream', data.action);
-      workbenchStore.runAction(data, true);
-    },
+    if (data.action.type === 'shell') {
+      workbenchStore.addAction(data);
+    }
+
+    workbenchStore.runAction(data);
+  },
+  onActionStream: (data) => {
+    logger.trace('onActionStream', data.action);
+    workbenchStore.runAction(data, true);
   },
-});
+};
+
+const messageParser = new StreamingMessageParser({ callbacks });
+const toolInvocationParser = new ToolInvocationParser({ callbacks });
+
+/**
+ * Responses in tool calling mode have no artifact title, so we use the prompt that started them.
+ */
+function getToolArtifactTitle(userMessage: Message | undefined) {
+  const prompt = (userMessage?.content ?? '')
+    .replace(modificationsRegex, '')
+    .trimStart()
+    .replace(fileContextRegex, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (prompt.length <= MAX_TOOL_ARTIFACT_TITLE_LENGTH) {
+    return prompt || 'Project Changes';
+  }
+
+  return `${prompt.slice(0, MAX_TOOL_ARTIFACT_TITLE_LENGTH).trimEnd()}…`;
+}
 
 export function useMessageParser() {
   const [parsedMessages, setParsedMessages] = useState<{ [key: number]: string }>({});
@@ -52,11 +78,24 @@ export function useMessageParser() {
     if (import.meta.env.DEV && !isLoading) {
       reset = true;
       messageParser.reset();
+      toolInvocationParser.reset();
     }
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant') {
-        const newParsedContent = messageParser.parse(message.id, message.content);
+        let newParsedContent = messageParser.parse(message.id, message.content);
+
+        if (message.toolInvocations?.length) {
+          const isComplete = !isLoading || index < messages.length - 1;
+          const userMessage = messages.slice(0, index).findLast(({ role }) => role === 'user');
+
+          newParsedContent += toolInvocationParser.parse(
+            message.id,
+            message.toolInvocations,
+            getToolArtifactTitle(userMessage),
+            isComplete,
+          );
+        }
 
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
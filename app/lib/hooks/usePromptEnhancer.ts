@@ -1,85 +1,138 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { enhancerSettingsStore, getEnhancerPresets, getEnhancerProjectContext } from '~/lib/stores/enhancer';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { getBuiltInEnhancerPreset } from '~/utils/enhancer';
+import { getChatErrorTitle, parseChatError } from '~/utils/errors';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('usePromptEnhancement');
 
+export interface PromptEnhancement {
+  original: string;
+  enhanced: string;
+}
+
+/**
+ * Streams an enhanced version of the prompt next to the original one. The input only changes once the user
+ * accepts the enhancement.
+ */
 export function usePromptEnhancer() {
   const [enhancingPrompt, setEnhancingPrompt] = useState(false);
   const [promptEnhanced, setPromptEnhanced] = useState(false);
+  const [enhancement, setEnhancement] = useState<PromptEnhancement>();
+  const abortControllerRef = useRef<AbortController>();
 
   const resetEnhancer = () => {
+    abortControllerRef.current?.abort();
     setEnhancingPrompt(false);
     setPromptEnhanced(false);
+    setEnhancement(undefined);
   };
 
-  const enhancePrompt = async (
-    input: string, 
-    setInput: (value: string) => void,
-    model: string,
-    provider: string,
-    apiKeys?: Record<string, string>
-  ) => {
+  const getPresetOptions = () => {
+    const { presetId } = enhancerSettingsStore.get();
+    const preset = getEnhancerPresets().find(({ id }) => id === presetId);
+
+    if (!preset || getBuiltInEnhancerPreset(preset.id)) {
+      return { preset: preset?.id };
+    }
+
+    return { instructions: preset.instructions };
+  };
+
+  const enhancePrompt = async (input: string, model: string, provider: string) => {
     setEnhancingPrompt(true);
     setPromptEnhanced(false);
-  
-    const requestBody: any = {
+    setEnhancement({ original: input, enhanced: '' });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const project = enhancerSettingsStore.get().includeProject
+      ? getEnhancerProjectContext(workbenchStore.files.get())
+      : undefined;
+
+    const requestBody = {
       message: input,
       model,
       provider,
+      ...getPresetOptions(),
+      ...(project ? { project } : {}),
     };
-  
-    if (apiKeys) {
-      requestBody.apiKeys = apiKeys;
-    }
-  
-    const response = await fetch('/api/enhancer', {
-      method: 'POST',
-      body: JSON.stringify(requestBody),
-    });
-  
-    const reader = response.body?.getReader();
-  
-    const originalInput = input;
-  
-    if (reader) {
+
+    try {
+      const response = await fetch('/api/enhancer', {
+        method: 'POST',
+        body: JSON.stringify(requestBody),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok) {
+        const error = parseChatError(await response.text());
+
+        toast.error(`${getChatErrorTitle(error.code)}: ${error.message}`);
+        setEnhancement(undefined);
+
+        return;
+      }
+
+      const reader = response.body!.getReader();
       const decoder = new TextDecoder();
-  
-      let _input = '';
-      let _error;
-  
-      try {
-        setInput('');
-  
-        while (true) {
-          const { value, done } = await reader.read();
-  
-          if (done) {
-            break;
-          }
-  
-          _input += decoder.decode(value);
-  
-          logger.trace('Set input', _input);
-  
-          setInput(_input);
-        }
-      } catch (error) {
-        _error = error;
-        setInput(originalInput);
-      } finally {
-        if (_error) {
-          logger.error(_error);
+
+      let enhanced = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+
+        if (done) {
+          break;
         }
-  
-        setEnhancingPrompt(false);
-        setPromptEnhanced(true);
-  
-        setTimeout(() => {
-          setInput(_input);
-        });
+
+        enhanced += decoder.decode(value);
+
+        logger.trace('Enhanced prompt', enhanced);
+
+        setEnhancement({ original: input, enhanced });
+      }
+
+      setEnhancement({ original: input, enhanced: enhanced.trim() });
+    } catch (error) {
+      // the user rejected the enhancement while it was streaming
+      if (abortController.signal.aborted) {
+        return;
       }
+
+      logger.error(error);
+      toast.error('Failed to enhance the prompt');
+      setEnhancement(undefined);
+    } finally {
+      setEnhancingPrompt(false);
+    }
+  };
+
+  const acceptEnhancement = (setInput: (value: string) => void) => {
+    if (!enhancement) {
+      return;
     }
+
+    setInput(enhancement.enhanced);
+    setEnhancement(undefined);
+    setPromptEnhanced(true);
+  };
+
+  const rejectEnhancement = () => {
+    abortControllerRef.current?.abort();
+    setEnhancement(undefined);
   };
 
-  return { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer };
+  return {
+    enhancingPrompt,
+    promptEnhanced,
+    enhancement,
+    enhancePrompt,
+    acceptEnhancement,
+    rejectEnhancement,
+    resetEnhancer,
+  };
 }
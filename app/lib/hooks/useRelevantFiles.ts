@@ -0,0 +1,24 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { workbenchStore } from '~/lib/stores/workbench';
+
+// searching on every keystroke isn't necessary, the selection is only shown as a preview
+const RETRIEVAL_DELAY = 300;
+
+/**
+ * Files that are automatically sent with the message because they most likely relate to the prompt.
+ */
+export function useRelevantFiles(input: string, exclude: string[]) {
+  const files = useStore(workbenchStore.files);
+  const [relevantFiles, setRelevantFiles] = useState<string[]>([]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setRelevantFiles(input.trim() ? workbenchStore.getRelevantFiles(input, exclude) : []);
+    }, RETRIEVAL_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [input, files, exclude]);
+
+  return relevantFiles;
+}
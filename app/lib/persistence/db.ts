@@ -1,5 +1,8 @@
 import type { Message } from 'ai';
+import type { CommandDecision } from '~/types/command-policy';
+import type { GenerationSettings } from '~/types/generation';
 import { createScopedLogger } from '~/utils/logger';
+import { migrateLegacyChat } from './migrations';
 import type { ChatHistoryItem } from './useChatHistory';
 
 const logger = createScopedLogger('ChatHistory');
@@ -7,7 +10,7 @@ const logger = createScopedLogger('ChatHistory');
 // this is used at the top level and never rejects
 export async function openDatabase(): Promise<IDBDatabase | undefined> {
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    const request = indexedDB.open('boltHistory', 2);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -17,6 +20,10 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      if (event.oldVersion < 2) {
+        migrateLegacyChats(request.transaction!.objectStore('chats'));
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -30,6 +37,24 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   });
 }
 
+// runs inside the upgrade transaction, so the database only opens once all chats are migrated
+function migrateLegacyChats(store: IDBObjectStore) {
+  const request = store.openCursor();
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+
+    if (cursor) {
+      cursor.update(migrateLegacyChat(cursor.value as ChatHistoryItem));
+      cursor.continue();
+    }
+  };
+
+  request.onerror = () => {
+    logger.error('Failed to migrate chats', request.error);
+  };
+}
+
 export async function getAll(db: IDBDatabase): Promise<ChatHistoryItem[]> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('chats', 'readonly');
@@ -47,6 +72,9 @@ export async function setMessages(
   messages: Message[],
   urlId?: string,
   description?: string,
+  generationSettings?: GenerationSettings,
+  pinnedFiles?: string[],
+  commandDecisions?: Record<string, CommandDecision>,
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('chats', 'readwrite');
@@ -57,6 +85,9 @@ export async function setMessages(
       messages,
       urlId,
       description,
+      generationSettings,
+      pinnedFiles,
+      commandDecisions,
       timestamp: new Date().toISOString(),
     });
 
@@ -0,0 +1,31 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { migrateLegacyMessage } from './migrations';
+
+describe('migrateLegacyMessage', () => {
+  it('should move the model and provider prefix into a request annotation', () => {
+    const message: Message = {
+      id: '1',
+      role: 'user',
+      content: '[Model: gpt-4o]\n\n[Provider: OpenAI]\n\nBuild a todo app',
+    };
+
+    expect(migrateLegacyMessage(message)).toEqual({
+      id: '1',
+      role: 'user',
+      content: 'Build a todo app',
+      annotations: [{ type: 'request', provider: 'OpenAI', model: 'gpt-4o' }],
+    });
+  });
+
+  it('should leave messages without the prefix untouched', () => {
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: 'Explain what [Provider: OpenAI]\n\n means' },
+      { id: '2', role: 'assistant', content: '[Model: gpt-4o]\n\nNothing to migrate' },
+    ];
+
+    for (const message of messages) {
+      expect(migrateLegacyMessage(message)).toBe(message);
+    }
+  });
+});
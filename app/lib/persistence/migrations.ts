@@ -0,0 +1,47 @@
+import type { Message } from 'ai';
+import type { RequestAnnotation } from '~/types/annotations';
+import { DEFAULT_PROVIDER } from '~/utils/constants';
+import type { ChatHistoryItem } from './useChatHistory';
+
+// older versions sent the selected model and provider as a prefix of the message content
+const legacyModelRegex = /^\[Model: (.*?)\]\n\n/;
+const legacyProviderRegex = /^\[Provider: (.*?)\]\n\n/;
+
+/**
+ * Moves the legacy `[Model: ...]` and `[Provider: ...]` prefix of a user message into a request annotation.
+ */
+export function migrateLegacyMessage(message: Message): Message {
+  if (message.role !== 'user') {
+    return message;
+  }
+
+  const modelMatch = message.content.match(legacyModelRegex);
+
+  if (!modelMatch) {
+    return message;
+  }
+
+  let content = message.content.slice(modelMatch[0].length);
+
+  const providerMatch = content.match(legacyProviderRegex);
+
+  if (providerMatch) {
+    content = content.slice(providerMatch[0].length);
+  }
+
+  const annotation = {
+    type: 'request',
+    provider: providerMatch ? providerMatch[1] : DEFAULT_PROVIDER.name,
+    model: modelMatch[1],
+  } satisfies RequestAnnotation;
+
+  return {
+    ...message,
+    content,
+    annotations: [...(message.annotations ?? []), annotation],
+  };
+}
+
+export function migrateLegacyChat(chat: ChatHistoryItem): ChatHistoryItem {
+  return { ...chat, messages: chat.messages.map(migrateLegacyMessage) };
+}
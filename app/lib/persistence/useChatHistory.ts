@@ -3,7 +3,10 @@ import { useState, useEffect } from 'react';
 import { atom } from 'nanostores';
 import type { Message } from 'ai';
 import { toast } from 'react-toastify';
+import { commandDecisionsStore } from '~/lib/stores/command-policy';
 import { workbenchStore } from '~/lib/stores/workbench';
+import type { CommandDecision } from '~/types/command-policy';
+import type { GenerationSettings } from '~/types/generation';
 import { getMessages, getNextId, getUrlId, openDatabase, setMessages } from './db';
 
 export interface ChatHistoryItem {
@@ -11,6 +14,13 @@ export interface ChatHistoryItem {
   urlId?: string;
   description?: string;
   messages: Message[];
+  generationSettings?: GenerationSettings;
+
+  // relative paths that are sent with every message of the chat
+  pinnedFiles?: string[];
+
+  // decisions of the user for the commands of the chat, keyed by message and action id
+  commandDecisions?: Record<string, CommandDecision>;
   timestamp: string;
 }
 
@@ -26,10 +36,15 @@ export function useChatHistory() {
   const { id: mixedId } = useLoaderData<{ id?: string }>();
 
   const [initialMessages, setInitialMessages] = useState<Message[]>([]);
+  const [initialGenerationSettings, setInitialGenerationSettings] = useState<GenerationSettings>({});
+  const [initialPinnedFiles, setInitialPinnedFiles] = useState<string[]>([]);
   const [ready, setReady] = useState<boolean>(false);
   const [urlId, setUrlId] = useState<string | undefined>();
 
   useEffect(() => {
+    // decisions of a previous chat must not be stored with this one
+    commandDecisionsStore.set({});
+
     if (!db) {
       setReady(true);
 
@@ -45,6 +60,9 @@ export function useChatHistory() {
         .then((storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
             setInitialMessages(storedMessages.messages);
+            setInitialGenerationSettings(storedMessages.generationSettings ?? {});
+            setInitialPinnedFiles(storedMessages.pinnedFiles ?? []);
+            commandDecisionsStore.set(storedMessages.commandDecisions ?? {});
             setUrlId(storedMessages.urlId);
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
@@ -63,7 +81,13 @@ export function useChatHistory() {
   return {
     ready: !mixedId || ready,
     initialMessages,
-    storeMessageHistory: async (messages: Message[]) => {
+    initialGenerationSettings,
+    initialPinnedFiles,
+    storeMessageHistory: async (
+      messages: Message[],
+      generationSettings?: GenerationSettings,
+      pinnedFiles?: string[],
+    ) => {
       if (!db || messages.length === 0) {
         return;
       }
@@ -91,7 +115,16 @@ export function useChatHistory() {
         }
       }
 
-      await setMessages(db, chatId.get() as string, messages, urlId, description.get());
+      await setMessages(
+        db,
+        chatId.get() as string,
+        messages,
+        urlId,
+        description.get(),
+        generationSettings,
+        pinnedFiles,
+        commandDecisionsStore.get(),
+      );
     },
   };
 }
@@ -0,0 +1,51 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import type { ProviderAdapter } from './types';
+
+export const anthropicProvider: ProviderAdapter = {
+  name: 'Anthropic',
+  envKeys: { apiKey: 'ANTHROPIC_API_KEY' },
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: true },
+  staticModels: [
+    {
+      name: 'claude-3-5-sonnet-latest',
+      label: 'Claude 3.5 Sonnet (new)',
+      provider: 'Anthropic',
+      pricing: { prompt: 3e-6, completion: 15e-6 },
+    },
+    {
+      name: 'claude-3-5-sonnet-20240620',
+      label: 'Claude 3.5 Sonnet (old)',
+      provider: 'Anthropic',
+      pricing: { prompt: 3e-6, completion: 15e-6 },
+    },
+    {
+      name: 'claude-3-5-haiku-latest',
+      label: 'Claude 3.5 Haiku (new)',
+      provider: 'Anthropic',
+      pricing: { prompt: 1e-6, completion: 5e-6 },
+      vision: false,
+    },
+    {
+      name: 'claude-3-opus-latest',
+      label: 'Claude 3 Opus',
+      provider: 'Anthropic',
+      pricing: { prompt: 15e-6, completion: 75e-6 },
+    },
+    {
+      name: 'claude-3-sonnet-20240229',
+      label: 'Claude 3 Sonnet',
+      provider: 'Anthropic',
+      pricing: { prompt: 3e-6, completion: 15e-6 },
+    },
+    {
+      name: 'claude-3-haiku-20240307',
+      label: 'Claude 3 Haiku',
+      provider: 'Anthropic',
+      pricing: { prompt: 0.25e-6, completion: 1.25e-6 },
+    },
+  ],
+  getApiKeyLink: 'https://console.anthropic.com/settings/keys',
+  createModel({ model, apiKey }) {
+    return createAnthropic({ apiKey })(model);
+  },
+};
@@ -0,0 +1,17 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { ProviderAdapter } from './types';
+
+export const deepseekProvider: ProviderAdapter = {
+  name: 'Deepseek',
+  envKeys: { apiKey: 'DEEPSEEK_API_KEY' },
+  defaultBaseUrl: 'https://api.deepseek.com/beta',
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: false },
+  staticModels: [
+    { name: 'deepseek-coder', label: 'Deepseek-Coder', provider: 'Deepseek' },
+    { name: 'deepseek-chat', label: 'Deepseek-Chat', provider: 'Deepseek' },
+  ],
+  getApiKeyLink: 'https://platform.deepseek.com/api_keys',
+  createModel({ model, apiKey, baseUrl }) {
+    return createOpenAI({ baseURL: baseUrl, apiKey })(model);
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * Fetches JSON from the API of a provider, throwing on error responses instead of failing to parse them.
+ */
+export async function fetchProviderJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`.trim());
+  }
+
+  return (await response.json()) as T;
+}
@@ -0,0 +1,16 @@
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import type { ProviderAdapter } from './types';
+
+export const googleProvider: ProviderAdapter = {
+  name: 'Google',
+  envKeys: { apiKey: 'GOOGLE_GENERATIVE_AI_API_KEY' },
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: true },
+  staticModels: [
+    { name: 'gemini-1.5-flash-latest', label: 'Gemini 1.5 Flash', provider: 'Google' },
+    { name: 'gemini-1.5-pro-latest', label: 'Gemini 1.5 Pro', provider: 'Google' },
+  ],
+  getApiKeyLink: 'https://aistudio.google.com/app/apikey',
+  createModel({ model, apiKey }) {
+    return createGoogleGenerativeAI({ apiKey })(model);
+  },
+};
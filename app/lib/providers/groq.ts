@@ -0,0 +1,20 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { ProviderAdapter } from './types';
+
+export const groqProvider: ProviderAdapter = {
+  name: 'Groq',
+  envKeys: { apiKey: 'GROQ_API_KEY' },
+  defaultBaseUrl: 'https://api.groq.com/openai/v1',
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: false },
+  staticModels: [
+    { name: 'llama-3.1-70b-versatile', label: 'Llama 3.1 70b (Groq)', provider: 'Groq' },
+    { name: 'llama-3.1-8b-instant', label: 'Llama 3.1 8b (Groq)', provider: 'Groq' },
+    { name: 'llama-3.2-11b-vision-preview', label: 'Llama 3.2 11b (Groq)', provider: 'Groq', vision: true },
+    { name: 'llama-3.2-3b-preview', label: 'Llama 3.2 3b (Groq)', provider: 'Groq' },
+    { name: 'llama-3.2-1b-preview', label: 'Llama 3.2 1b (Groq)', provider: 'Groq' },
+  ],
+  getApiKeyLink: 'https://console.groq.com/keys',
+  createModel({ model, apiKey, baseUrl }) {
+    return createOpenAI({ baseURL: baseUrl, apiKey })(model);
+  },
+};
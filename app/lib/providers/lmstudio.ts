@@ -0,0 +1,32 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { ModelInfo } from '~/utils/types';
+import type { DynamicModelsOptions } from '~/types/model';
+import { fetchProviderJson } from './fetch';
+import type { ProviderAdapter } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:1234';
+
+async function getLMStudioModels({ baseUrl = DEFAULT_BASE_URL, signal }: DynamicModelsOptions): Promise<ModelInfo[]> {
+  const data = await fetchProviderJson<{ data: { id: string }[] }>(`${baseUrl}/v1/models`, { signal });
+
+  return data.data.map((model) => ({
+    name: model.id,
+    label: model.id,
+    provider: 'LMStudio',
+  }));
+}
+
+export const lmStudioProvider: ProviderAdapter = {
+  name: 'LMStudio',
+  envKeys: { baseUrl: 'LMSTUDIO_API_BASE_URL' },
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  capabilities: { requiresApiKey: false, toolCalling: false, vision: false },
+  staticModels: [],
+  getDynamicModels: getLMStudioModels,
+  getApiKeyLink: 'https://lmstudio.ai/',
+  labelForGetApiKey: 'Get LMStudio',
+  icon: 'i-ph:cloud-arrow-down',
+  createModel({ model, baseUrl }) {
+    return createOpenAI({ baseURL: `${baseUrl}/v1`, apiKey: '' })(model);
+  },
+};
@@ -0,0 +1,23 @@
+import { createMistral } from '@ai-sdk/mistral';
+import type { ProviderAdapter } from './types';
+
+export const mistralProvider: ProviderAdapter = {
+  name: 'Mistral',
+  envKeys: { apiKey: 'MISTRAL_API_KEY' },
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: false },
+  staticModels: [
+    { name: 'open-mistral-7b', label: 'Mistral 7B', provider: 'Mistral' },
+    { name: 'open-mixtral-8x7b', label: 'Mistral 8x7B', provider: 'Mistral' },
+    { name: 'open-mixtral-8x22b', label: 'Mistral 8x22B', provider: 'Mistral' },
+    { name: 'open-codestral-mamba', label: 'Codestral Mamba', provider: 'Mistral' },
+    { name: 'open-mistral-nemo', label: 'Mistral Nemo', provider: 'Mistral' },
+    { name: 'ministral-8b-latest', label: 'Mistral 8B', provider: 'Mistral' },
+    { name: 'mistral-small-latest', label: 'Mistral Small', provider: 'Mistral' },
+    { name: 'codestral-latest', label: 'Codestral', provider: 'Mistral' },
+    { name: 'mistral-large-latest', label: 'Mistral Large Latest', provider: 'Mistral' },
+  ],
+  getApiKeyLink: 'https://console.mistral.ai/api-keys/',
+  createModel({ model, apiKey }) {
+    return createMistral({ apiKey })(model);
+  },
+};
@@ -0,0 +1,44 @@
+import { createOllama } from 'ollama-ai-provider';
+import type { ModelInfo, OllamaApiResponse, OllamaModel } from '~/utils/types';
+import type { DynamicModelsOptions } from '~/types/model';
+import { fetchProviderJson } from './fetch';
+import type { ProviderAdapter } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+// context size we request from Ollama, its default of 2048 tokens is too small for the system prompt alone
+export const OLLAMA_NUM_CTX = 32768;
+
+const OLLAMA_VISION_FAMILIES = ['clip', 'mllama'];
+
+async function getOllamaModels({ baseUrl = DEFAULT_BASE_URL, signal }: DynamicModelsOptions): Promise<ModelInfo[]> {
+  const data = await fetchProviderJson<OllamaApiResponse>(`${baseUrl}/api/tags`, { signal });
+
+  return data.models.map((model: OllamaModel) => ({
+    name: model.name,
+    label: `${model.name} (${model.details.parameter_size})`,
+    provider: 'Ollama',
+    contextLength: OLLAMA_NUM_CTX,
+
+    // multimodal models like llava and llama3.2-vision ship with an image projector
+    vision: model.details.families?.some((family) => OLLAMA_VISION_FAMILIES.includes(family)) ?? false,
+  }));
+}
+
+export const ollamaProvider: ProviderAdapter = {
+  name: 'Ollama',
+  envKeys: { baseUrl: 'OLLAMA_API_BASE_URL' },
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  capabilities: { requiresApiKey: false, toolCalling: false, vision: false },
+  staticModels: [],
+  getDynamicModels: getOllamaModels,
+  getApiKeyLink: 'https://ollama.com/download',
+  labelForGetApiKey: 'Download Ollama',
+  icon: 'i-ph:cloud-arrow-down',
+  resolveBaseUrl(baseUrl, env) {
+    return env('RUNNING_IN_DOCKER') === 'true' ? baseUrl.replace('localhost', 'host.docker.internal') : baseUrl;
+  },
+  createModel({ model, baseUrl }) {
+    return createOllama({ baseURL: `${baseUrl}/api` })(model, { numCtx: OLLAMA_NUM_CTX });
+  },
+};
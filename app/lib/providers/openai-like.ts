@@ -0,0 +1,35 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { ModelInfo } from '~/utils/types';
+import type { DynamicModelsOptions } from '~/types/model';
+import { fetchProviderJson } from './fetch';
+import type { ProviderAdapter } from './types';
+
+async function getOpenAILikeModels({ baseUrl, apiKey = '', signal }: DynamicModelsOptions): Promise<ModelInfo[]> {
+  if (!baseUrl) {
+    return [];
+  }
+
+  const res = await fetchProviderJson<{ data: { id: string }[] }>(`${baseUrl}/models`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+    },
+    signal,
+  });
+
+  return res.data.map((model) => ({
+    name: model.id,
+    label: model.id,
+    provider: 'OpenAILike',
+  }));
+}
+
+export const openAILikeProvider: ProviderAdapter = {
+  name: 'OpenAILike',
+  envKeys: { apiKey: 'OPENAI_LIKE_API_KEY', baseUrl: 'OPENAI_LIKE_API_BASE_URL' },
+  capabilities: { requiresApiKey: false, toolCalling: false, vision: false },
+  staticModels: [],
+  getDynamicModels: getOpenAILikeModels,
+  createModel({ model, apiKey, baseUrl }) {
+    return createOpenAI({ baseURL: baseUrl, apiKey })(model);
+  },
+};
@@ -0,0 +1,25 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { ProviderAdapter } from './types';
+
+export const openAIProvider: ProviderAdapter = {
+  name: 'OpenAI',
+  envKeys: { apiKey: 'OPENAI_API_KEY' },
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: true },
+  staticModels: [
+    { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', pricing: { prompt: 2.5e-6, completion: 10e-6 } },
+    { name: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'OpenAI', pricing: { prompt: 0.15e-6, completion: 0.6e-6 } },
+    { name: 'gpt-4-turbo', label: 'GPT-4 Turbo', provider: 'OpenAI', pricing: { prompt: 10e-6, completion: 30e-6 } },
+    { name: 'gpt-4', label: 'GPT-4', provider: 'OpenAI', pricing: { prompt: 30e-6, completion: 60e-6 }, vision: false },
+    {
+      name: 'gpt-3.5-turbo',
+      label: 'GPT-3.5 Turbo',
+      provider: 'OpenAI',
+      pricing: { prompt: 0.5e-6, completion: 1.5e-6 },
+      vision: false,
+    },
+  ],
+  getApiKeyLink: 'https://platform.openai.com/api-keys',
+  createModel({ model, apiKey }) {
+    return createOpenAI({ apiKey })(model);
+  },
+};
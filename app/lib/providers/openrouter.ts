@@ -0,0 +1,92 @@
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import type { LanguageModelV1 } from 'ai';
+import type { ModelInfo } from '~/utils/types';
+import type { DynamicModelsOptions } from '~/types/model';
+import { fetchProviderJson } from './fetch';
+import type { ProviderAdapter } from './types';
+
+type OpenRouterModelsResponse = {
+  data: {
+    name: string;
+    id: string;
+    context_length: number;
+    pricing: {
+      prompt: string;
+      completion: string;
+    };
+    architecture?: {
+      // e.g. `text+image->text`
+      modality?: string;
+    };
+    top_provider?: {
+      max_completion_tokens?: number | null;
+    };
+    supported_parameters?: string[];
+  }[];
+};
+
+async function getOpenRouterModels({ signal }: DynamicModelsOptions): Promise<ModelInfo[]> {
+  const data = await fetchProviderJson<OpenRouterModelsResponse>('https://openrouter.ai/api/v1/models', {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    signal,
+  });
+
+  return data.data
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((m) => {
+      const pricing = { prompt: Number(m.pricing.prompt), completion: Number(m.pricing.completion) };
+
+      return {
+        name: m.id,
+        label: `${m.name} - in:$${(pricing.prompt * 1_000_000).toFixed(
+          2,
+        )} out:$${(pricing.completion * 1_000_000).toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
+        provider: 'OpenRouter',
+        pricing,
+        contextLength: m.context_length,
+        maxOutputTokens: m.top_provider?.max_completion_tokens ?? undefined,
+        vision: m.architecture?.modality?.split('->')[0].includes('image') ?? false,
+        toolCalling: m.supported_parameters?.includes('tools'),
+      };
+    });
+}
+
+export const openRouterProvider: ProviderAdapter = {
+  name: 'OpenRouter',
+  envKeys: { apiKey: 'OPEN_ROUTER_API_KEY' },
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: true },
+  staticModels: [
+    { name: 'anthropic/claude-3.5-sonnet', label: 'Anthropic: Claude 3.5 Sonnet (OpenRouter)', provider: 'OpenRouter' },
+    { name: 'anthropic/claude-3-haiku', label: 'Anthropic: Claude 3 Haiku (OpenRouter)', provider: 'OpenRouter' },
+    {
+      name: 'deepseek/deepseek-coder',
+      label: 'Deepseek-Coder V2 236B (OpenRouter)',
+      provider: 'OpenRouter',
+      vision: false,
+    },
+    { name: 'google/gemini-flash-1.5', label: 'Google Gemini Flash 1.5 (OpenRouter)', provider: 'OpenRouter' },
+    { name: 'google/gemini-pro-1.5', label: 'Google Gemini Pro 1.5 (OpenRouter)', provider: 'OpenRouter' },
+    { name: 'x-ai/grok-beta', label: 'xAI Grok Beta (OpenRouter)', provider: 'OpenRouter', vision: false },
+    {
+      name: 'mistralai/mistral-nemo',
+      label: 'OpenRouter Mistral Nemo (OpenRouter)',
+      provider: 'OpenRouter',
+      vision: false,
+    },
+    {
+      name: 'qwen/qwen-110b-chat',
+      label: 'OpenRouter Qwen 110b Chat (OpenRouter)',
+      provider: 'OpenRouter',
+      vision: false,
+    },
+    { name: 'cohere/command', label: 'Cohere Command (OpenRouter)', provider: 'OpenRouter', vision: false },
+  ],
+  getDynamicModels: getOpenRouterModels,
+  getApiKeyLink: 'https://openrouter.ai/settings/keys',
+  createModel({ model, apiKey }) {
+    // the OpenRouter provider is built against an older `@ai-sdk/provider` version with a narrower prompt type
+    return createOpenRouter({ apiKey }).chat(model) as unknown as LanguageModelV1;
+  },
+};
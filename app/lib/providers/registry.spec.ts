@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ollamaProvider } from './ollama';
+import { openAIProvider } from './openai';
+import { openAILikeProvider } from './openai-like';
+import { getProviderApiKey, getProviderBaseUrl } from './registry';
+import type { ProviderEnv } from './types';
+
+const createEnv =
+  (values: Record<string, string>): ProviderEnv =>
+  (key) =>
+    values[key];
+
+describe('getProviderApiKey', () => {
+  it('should prefer the key of the user over the environment', () => {
+    const env = createEnv({ OPENAI_API_KEY: 'env-key' });
+
+    expect(getProviderApiKey(openAIProvider, env, { OpenAI: 'user-key' })).toBe('user-key');
+    expect(getProviderApiKey(openAIProvider, env, { OpenAI: '', Anthropic: 'other-key' })).toBe('env-key');
+    expect(getProviderApiKey(openAIProvider, createEnv({}))).toBe('');
+    expect(getProviderApiKey(ollamaProvider, env)).toBe('');
+  });
+});
+
+describe('getProviderBaseUrl', () => {
+  it('should prefer the environment over the default base URL', () => {
+    expect(getProviderBaseUrl(ollamaProvider, createEnv({}))).toBe(ollamaProvider.defaultBaseUrl);
+    expect(getProviderBaseUrl(ollamaProvider, createEnv({ OLLAMA_API_BASE_URL: 'http://ollama:11434' }))).toBe(
+      'http://ollama:11434',
+    );
+    expect(getProviderBaseUrl(openAILikeProvider, createEnv({}))).toBe('');
+    expect(getProviderBaseUrl(openAIProvider, createEnv({ OPENAI_LIKE_API_BASE_URL: 'http://localhost' }))).toBe('');
+  });
+
+  it('should let providers adjust the base URL', () => {
+    const env = createEnv({ OLLAMA_API_BASE_URL: 'http://localhost:11434', RUNNING_IN_DOCKER: 'true' });
+
+    expect(getProviderBaseUrl(ollamaProvider, env)).toBe('http://host.docker.internal:11434');
+  });
+});
@@ -0,0 +1,58 @@
+import { anthropicProvider } from './anthropic';
+import { deepseekProvider } from './deepseek';
+import { googleProvider } from './google';
+import { groqProvider } from './groq';
+import { lmStudioProvider } from './lmstudio';
+import { mistralProvider } from './mistral';
+import { ollamaProvider } from './ollama';
+import { openAIProvider } from './openai';
+import { openAILikeProvider } from './openai-like';
+import { openRouterProvider } from './openrouter';
+import { replayProvider } from './replay';
+import type { ProviderAdapter, ProviderEnv } from './types';
+import { xAIProvider } from './xai';
+
+/**
+ * All providers bolt can talk to. The first provider is the default one.
+ *
+ * To add a new provider, implement `ProviderAdapter` in its own module and register it here.
+ */
+export const PROVIDERS: ProviderAdapter[] = [
+  anthropicProvider,
+  ollamaProvider,
+  openAILikeProvider,
+  openRouterProvider,
+  googleProvider,
+  groqProvider,
+  openAIProvider,
+  xAIProvider,
+  deepseekProvider,
+  mistralProvider,
+  lmStudioProvider,
+
+  // offline provider for development, demos and tests
+  ...(import.meta.env.DEV || import.meta.env.VITE_ENABLE_REPLAY_PROVIDER ? [replayProvider] : []),
+];
+
+export function getProvider(name: string | undefined) {
+  return PROVIDERS.find((provider) => provider.name === name);
+}
+
+export function getProviderApiKey(provider: ProviderAdapter, env: ProviderEnv, userApiKeys?: Record<string, string>) {
+  // user-provided API keys take precedence over the environment
+  if (userApiKeys?.[provider.name]) {
+    return userApiKeys[provider.name];
+  }
+
+  return (provider.envKeys.apiKey && env(provider.envKeys.apiKey)) || '';
+}
+
+export function getProviderBaseUrl(provider: ProviderAdapter, env: ProviderEnv) {
+  const baseUrl = (provider.envKeys.baseUrl && env(provider.envKeys.baseUrl)) || provider.defaultBaseUrl;
+
+  if (!baseUrl) {
+    return '';
+  }
+
+  return provider.resolveBaseUrl ? provider.resolveBaseUrl(baseUrl, env) : baseUrl;
+}
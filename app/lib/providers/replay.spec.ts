@@ -0,0 +1,83 @@
+import { streamText, type CoreMessage } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { StreamingMessageParser, type ActionCallbackData } from '~/lib/runtime/message-parser';
+import { createReplayModel, getReplaySegmentIndex, REPLAY_FIXTURES, type ReplayFixture } from './replay';
+
+const fixture: ReplayFixture = {
+  segments: [
+    { text: 'first segment', finishReason: 'length' },
+    { text: 'second segment', finishReason: 'stop' },
+  ],
+};
+
+describe('getReplaySegmentIndex', () => {
+  it('should start with the first segment', () => {
+    expect(getReplaySegmentIndex(fixture, [{ role: 'user', content: [{ type: 'text', text: 'Build an app' }] }])).toBe(
+      0,
+    );
+  });
+
+  it('should continue with the next segment', () => {
+    expect(
+      getReplaySegmentIndex(fixture, [
+        { role: 'user', content: [{ type: 'text', text: 'Build an app' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'first segment' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Continue' }] },
+      ]),
+    ).toBe(1);
+  });
+
+  it('should start over for a new turn', () => {
+    expect(
+      getReplaySegmentIndex(fixture, [
+        { role: 'user', content: [{ type: 'text', text: 'Build an app' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'first segmentsecond segment' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Add a button' }] },
+      ]),
+    ).toBe(0);
+  });
+});
+
+describe('Replay provider', () => {
+  it('should replay a continued response into artifacts and actions', async () => {
+    const model = createReplayModel('hello-world', REPLAY_FIXTURES['hello-world'], { chunkDelay: 0 });
+    const messages: CoreMessage[] = [{ role: 'user', content: 'Build a hello world server' }];
+
+    let content = '';
+
+    for (let segment = 0; segment < 5; segment++) {
+      const result = await streamText({ model, messages });
+
+      let text = '';
+
+      for await (const delta of result.textStream) {
+        text += delta;
+      }
+
+      content += text;
+
+      if ((await result.finishReason) !== 'length') {
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: text }, { role: 'user', content: 'Continue' });
+    }
+
+    const closedActions: ActionCallbackData[] = [];
+    const onArtifactClose = vi.fn();
+
+    const parser = new StreamingMessageParser({
+      artifactElement: () => '',
+      callbacks: {
+        onArtifactClose,
+        onActionClose: (data) => closedActions.push(data),
+      },
+    });
+
+    parser.parse('message_1', content);
+
+    expect(onArtifactClose).toHaveBeenCalledTimes(1);
+    expect(closedActions.map(({ action }) => action.type)).toEqual(['file', 'file', 'start']);
+    expect(closedActions[1].action.content).toContain('server.listen(3000');
+  });
+});
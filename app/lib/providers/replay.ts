@@ -0,0 +1,165 @@
+import type { LanguageModelV1, LanguageModelV1Prompt, LanguageModelV1StreamPart } from 'ai';
+import type { ModelInfo } from '~/utils/types';
+import type { ProviderAdapter } from './types';
+
+/**
+ * One model response. Responses that were cut off by the output token limit end with
+ * `finishReason: 'length'` and are continued by the next segment.
+ */
+export interface ReplaySegment {
+  text: string;
+  finishReason: 'stop' | 'length';
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface ReplayFixture {
+  title?: string;
+  segments: ReplaySegment[];
+}
+
+export interface ReplayModelOptions {
+  /**
+   * Number of characters per streamed chunk.
+   */
+  chunkSize?: number;
+
+  /**
+   * Delay between chunks to make the replay look like a real response.
+   */
+  chunkDelay?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 24;
+const DEFAULT_CHUNK_DELAY = 10;
+
+const fixtureModules = import.meta.glob<ReplayFixture>('./fixtures/*.json', { eager: true, import: 'default' });
+
+export const REPLAY_FIXTURES: Record<string, ReplayFixture> = Object.fromEntries(
+  Object.entries(fixtureModules).map(([path, fixture]) => [path.replace(/^.*\/|\.json$/g, ''), fixture]),
+);
+
+/**
+ * Returns the index of the segment to replay for the given prompt.
+ *
+ * Continuations repeat the conversation with the previous segments as assistant messages, each
+ * followed by a user message asking to continue. We count how many of the trailing assistant
+ * messages match the beginning of the fixture.
+ */
+export function getReplaySegmentIndex(fixture: ReplayFixture, prompt: LanguageModelV1Prompt) {
+  const assistantTexts: string[] = [];
+
+  for (let i = prompt.length - 2; i >= 0; i -= 2) {
+    const message = prompt[i];
+
+    if (message.role !== 'assistant' || prompt[i + 1].role !== 'user') {
+      break;
+    }
+
+    assistantTexts.unshift(message.content.map((part) => (part.type === 'text' ? part.text : '')).join(''));
+  }
+
+  for (let count = Math.min(assistantTexts.length, fixture.segments.length - 1); count > 0; count--) {
+    const previous = assistantTexts.slice(-count);
+
+    if (previous.every((text, index) => text === fixture.segments[index].text)) {
+      return count;
+    }
+  }
+
+  return 0;
+}
+
+export function createReplayModel(
+  modelId: string,
+  fixture: ReplayFixture | undefined,
+  options: ReplayModelOptions = {},
+): LanguageModelV1 {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, chunkDelay = DEFAULT_CHUNK_DELAY } = options;
+
+  const getSegment = (prompt: LanguageModelV1Prompt) => {
+    if (!fixture || fixture.segments.length === 0) {
+      throw new Error(`No replay fixture named "${modelId}"`);
+    }
+
+    return fixture.segments[getReplaySegmentIndex(fixture, prompt)];
+  };
+
+  const getUsage = (segment: ReplaySegment) => {
+    return segment.usage ?? { promptTokens: 0, completionTokens: Math.ceil(segment.text.length / 4) };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'replay',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate({ prompt }) {
+      const segment = getSegment(prompt);
+
+      return {
+        text: segment.text,
+        finishReason: segment.finishReason,
+        usage: getUsage(segment),
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream({ prompt, abortSignal }) {
+      const segment = getSegment(prompt);
+      let offset = 0;
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        async pull(controller) {
+          if (abortSignal?.aborted) {
+            controller.close();
+            return;
+          }
+
+          if (offset >= segment.text.length) {
+            controller.enqueue({ type: 'finish', finishReason: segment.finishReason, usage: getUsage(segment) });
+            controller.close();
+
+            return;
+          }
+
+          if (chunkDelay > 0 && offset > 0) {
+            await new Promise((resolve) => setTimeout(resolve, chunkDelay));
+          }
+
+          controller.enqueue({ type: 'text-delta', textDelta: segment.text.slice(offset, offset + chunkSize) });
+
+          offset += chunkSize;
+        },
+      });
+
+      return { stream, rawCall: { rawPrompt: prompt, rawSettings: {} } };
+    },
+  };
+}
+
+function getReplayModels(): ModelInfo[] {
+  return Object.entries(REPLAY_FIXTURES).map(([name, fixture]) => ({
+    name,
+    label: `${fixture.title ?? name} (Replay)`,
+    provider: 'Replay',
+  }));
+}
+
+/**
+ * Replays recorded transcripts from `./fixtures` instead of calling an LLM, which allows to develop and
+ * test bolt offline. Transcripts can be recorded by setting `REPLAY_RECORD_DIR` to `app/lib/providers/fixtures`,
+ * the fixtures are bundled with `import.meta.glob` and recordings in other directories aren't picked up.
+ */
+export const replayProvider: ProviderAdapter = {
+  name: 'Replay',
+  envKeys: {},
+  capabilities: { requiresApiKey: false, toolCalling: false, vision: false },
+  staticModels: getReplayModels(),
+  createModel({ model }) {
+    return createReplayModel(model, REPLAY_FIXTURES[model]);
+  },
+};
@@ -0,0 +1,51 @@
+import type { LanguageModelV1 } from 'ai';
+import type { ProviderInfo } from '~/types/model';
+
+/**
+ * Looks up configuration values like API keys or base URLs. On the server this combines the
+ * process environment with the Cloudflare bindings.
+ */
+export type ProviderEnv = (key: string) => string | undefined;
+
+export interface ProviderCapabilities {
+  /**
+   * Whether the provider can't be used without an API key.
+   */
+  requiresApiKey: boolean;
+
+  /**
+   * Whether the models of the provider generally support native tool calling.
+   */
+  toolCalling: boolean;
+
+  /**
+   * Whether the models of the provider generally accept images.
+   */
+  vision: boolean;
+}
+
+export interface ProviderEnvKeys {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface CreateModelOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface ProviderAdapter extends ProviderInfo {
+  /**
+   * Environment variables the API key and base URL are read from.
+   */
+  envKeys: ProviderEnvKeys;
+  defaultBaseUrl?: string;
+  capabilities: ProviderCapabilities;
+
+  /**
+   * Optional hook to adjust the configured base URL, e.g. when running inside Docker.
+   */
+  resolveBaseUrl?: (baseUrl: string, env: ProviderEnv) => string;
+  createModel: (options: CreateModelOptions) => LanguageModelV1;
+}
@@ -0,0 +1,14 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { ProviderAdapter } from './types';
+
+export const xAIProvider: ProviderAdapter = {
+  name: 'xAI',
+  envKeys: { apiKey: 'XAI_API_KEY' },
+  defaultBaseUrl: 'https://api.x.ai/v1',
+  capabilities: { requiresApiKey: true, toolCalling: true, vision: false },
+  staticModels: [{ name: 'grok-beta', label: 'xAI Grok Beta', provider: 'xAI' }],
+  getApiKeyLink: 'https://docs.x.ai/docs/quickstart#creating-an-api-key',
+  createModel({ model, apiKey, baseUrl }) {
+    return createOpenAI({ baseURL: baseUrl, apiKey })(model);
+  },
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { FileIndex, RETRIEVAL_CHARACTER_BUDGET, selectRelevantFiles, tokenize } from './file-index';
+
+function createIndex() {
+  const index = new FileIndex();
+
+  index.set(
+    'src/components/LoginForm.tsx',
+    `import { useAuth } from '../hooks/useAuth';\nexport function LoginForm() {}`,
+  );
+  index.set('src/hooks/useAuth.ts', 'export function useAuth() { return fetchSession(); }');
+  index.set('src/components/Header.tsx', 'export function Header() { return <nav className="header" />; }');
+  index.set('README.md', 'A todo app built with React.');
+
+  return index;
+}
+
+describe('tokenize', () => {
+  it('should split identifiers and drop stop words', () => {
+    expect(tokenize('const fetchUserProfile = load_data(HTTPServer)')).toEqual([
+      'fetch',
+      'user',
+      'profile',
+      'fetchuserprofile',
+      'load',
+      'data',
+      'load_data',
+      'http',
+      'server',
+      'httpserver',
+    ]);
+  });
+});
+
+describe('FileIndex', () => {
+  it('should rank files by their paths, imports and identifiers', () => {
+    const results = createIndex().search('The login form should remember the auth session');
+
+    expect(results.map(({ path }) => path)).toEqual(['src/components/LoginForm.tsx', 'src/hooks/useAuth.ts']);
+  });
+
+  it('should forget deleted files and folders', () => {
+    const index = createIndex();
+
+    index.delete('src/hooks/useAuth.ts');
+    index.deleteFolder('src/components');
+
+    expect(index.size).toBe(1);
+    expect(index.search('login auth header')).toEqual([]);
+  });
+});
+
+describe('selectRelevantFiles', () => {
+  it('should skip excluded files and files exceeding the budget', () => {
+    const index = createIndex();
+
+    index.set('src/components/LoginPage.tsx', `// login\n${'x'.repeat(RETRIEVAL_CHARACTER_BUDGET)}`);
+
+    expect(selectRelevantFiles(index, 'fix the login form', ['src/hooks/useAuth.ts'])).toEqual([
+      'src/components/LoginForm.tsx',
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// terms in paths and imports say more about a file than terms in its content
+const PATH_WEIGHT = 3;
+const IMPORT_WEIGHT = 2;
+
+// files selected per message and their total size, roughly 8k tokens
+export const MAX_RETRIEVED_FILES = 5;
+export const RETRIEVAL_CHARACTER_BUDGET = 30_000;
+
+// files that score much lower than the best match are most likely noise
+const MIN_RELATIVE_SCORE = 0.3;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'async',
+  'await',
+  'be',
+  'can',
+  'const',
+  'default',
+  'else',
+  'export',
+  'false',
+  'for',
+  'from',
+  'function',
+  'if',
+  'import',
+  'in',
+  'is',
+  'it',
+  'let',
+  'make',
+  'new',
+  'null',
+  'of',
+  'on',
+  'or',
+  'please',
+  'return',
+  'should',
+  'that',
+  'the',
+  'this',
+  'to',
+  'true',
+  'undefined',
+  'use',
+  'var',
+  'with',
+  'you',
+]);
+
+const identifierRegex = /[A-Za-z_$][A-Za-z0-9_$]*/g;
+const identifierPartRegex = /[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+const importRegex = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\(\s*)['"]([^'"]+)['"]/g;
+
+export interface SearchResult {
+  path: string;
+  score: number;
+
+  // length of the content in characters
+  size: number;
+}
+
+interface IndexedDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+  size: number;
+}
+
+/**
+ * Splits identifiers into lowercase terms, e.g. `fetchUserProfile` into `fetch`, `user`, `profile` and
+ * `fetchuserprofile` so that both the words of a prompt and the exact identifier match.
+ */
+export function tokenize(text: string) {
+  const terms: string[] = [];
+
+  for (const [identifier] of text.matchAll(identifierRegex)) {
+    const parts = identifier.split(identifierPartRegex).filter(Boolean);
+
+    for (const part of parts) {
+      const term = part.toLowerCase();
+
+      if (term.length > 1 && !STOP_WORDS.has(term)) {
+        terms.push(term);
+      }
+    }
+
+    if (parts.length > 1) {
+      terms.push(identifier.toLowerCase());
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Lexical BM25 index over the paths, imports and identifiers of the project files. It is updated file by
+ * file, so it can follow the events of the file watcher.
+ */
+export class FileIndex {
+  #documents = new Map<string, IndexedDocument>();
+  #documentFrequencies = new Map<string, number>();
+  #totalLength = 0;
+
+  get size() {
+    return this.#documents.size;
+  }
+
+  set(path: string, content: string) {
+    this.delete(path);
+
+    const terms = [
+      ...repeat(tokenize(path), PATH_WEIGHT),
+      ...repeat(getImports(content).flatMap(tokenize), IMPORT_WEIGHT),
+      ...tokenize(content),
+    ];
+
+    const termFrequencies = new Map<string, number>();
+
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      this.#documentFrequencies.set(term, (this.#documentFrequencies.get(term) ?? 0) + 1);
+    }
+
+    this.#documents.set(path, { termFrequencies, length: terms.length, size: content.length });
+    this.#totalLength += terms.length;
+  }
+
+  delete(path: string) {
+    const document = this.#documents.get(path);
+
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.termFrequencies.keys()) {
+      const frequency = this.#documentFrequencies.get(term)! - 1;
+
+      if (frequency === 0) {
+        this.#documentFrequencies.delete(term);
+      } else {
+        this.#documentFrequencies.set(term, frequency);
+      }
+    }
+
+    this.#documents.delete(path);
+    this.#totalLength -= document.length;
+  }
+
+  /**
+   * Removes all files of a folder.
+   */
+  deleteFolder(folder: string) {
+    for (const path of [...this.#documents.keys()]) {
+      if (path.startsWith(`${folder}/`)) {
+        this.delete(path);
+      }
+    }
+  }
+
+  search(query: string): SearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+
+    if (terms.length === 0 || this.#documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.#totalLength / this.#documents.size || 1;
+    const results: SearchResult[] = [];
+
+    for (const [path, { termFrequencies, length, size }] of this.#documents) {
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = termFrequencies.get(term);
+
+        if (!frequency) {
+          continue;
+        }
+
+        const normalizedFrequency = frequency + K1 * (1 - B + (B * length) / averageLength);
+
+        score += this.#getInverseDocumentFrequency(term) * ((frequency * (K1 + 1)) / normalizedFrequency);
+      }
+
+      if (score > 0) {
+        results.push({ path, score, size });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  #getInverseDocumentFrequency(term: string) {
+    const frequency = this.#documentFrequencies.get(term) ?? 0;
+
+    return Math.log(1 + (this.#documents.size - frequency + 0.5) / (frequency + 0.5));
+  }
+}
+
+/**
+ * Picks the best matches of the query that fit into the character budget.
+ */
+export function selectRelevantFiles(index: FileIndex, query: string, exclude: string[] = []) {
+  const results = index.search(query).filter(({ path }) => !exclude.includes(path));
+
+  if (results.length === 0) {
+    return [];
+  }
+
+  const minScore = results[0].score * MIN_RELATIVE_SCORE;
+  const selected: string[] = [];
+
+  let size = 0;
+
+  for (const result of results) {
+    if (result.score < minScore || selected.length === MAX_RETRIEVED_FILES) {
+      break;
+    }
+
+    if (size + result.size > RETRIEVAL_CHARACTER_BUDGET) {
+      continue;
+    }
+
+    selected.push(result.path);
+    size += result.size;
+  }
+
+  return selected;
+}
+
+function getImports(content: string) {
+  return [...content.matchAll(importRegex)].map(([, specifier]) => specifier);
+}
+
+function repeat<T>(values: T[], times: number) {
+  return Array.from({ length: times }, () => values).flat();
+}
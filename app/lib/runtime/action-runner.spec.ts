@@ -0,0 +1,209 @@
+import type { WebContainer } from '@webcontainer/api';
+import { describe, expect, it, vi } from 'vitest';
+import type { BoltAction } from '~/types/actions';
+import type { BoltShell } from '~/utils/shell';
+import { withResolvers } from '~/utils/promises';
+import { ActionRunner, type ActionRunnerOptions } from './action-runner';
+
+function createRunner(options?: ActionRunnerOptions) {
+  const fs = {
+    mkdir: vi.fn(async () => undefined),
+    writeFile: vi.fn(async () => undefined),
+    rm: vi.fn(async () => undefined),
+  };
+
+  const execution = withResolvers<{ exitCode: number; output: string }>();
+
+  const shell = {
+    terminal: {},
+    process: {},
+    ready: async () => undefined,
+    executeCommand: vi.fn<
+      (sessionId: string, command: string) => Promise<{ exitCode: number; output: string } | undefined>
+    >(() => execution.promise),
+    interrupt: vi.fn(async () => execution.resolve({ exitCode: 130, output: '^C' })),
+  };
+
+  const runner = new ActionRunner(
+    Promise.resolve({ fs } as unknown as WebContainer),
+    () => shell as unknown as BoltShell,
+    options,
+  );
+
+  const add = (actionId: string, action: BoltAction) => {
+    const data = { artifactId: 'artifact_1', messageId: 'message_1', actionId, action };
+
+    runner.addAction(data);
+
+    return data;
+  };
+
+  return { runner, fs, shell, add };
+}
+
+describe('ActionRunner.abortAll', () => {
+  it('should remove files that were only partially streamed', async () => {
+    const { runner, fs, add } = createRunner();
+    const data = add('action_1', { type: 'file', filePath: '/home/project/index.js', content: 'console.' });
+
+    await runner.runAction(data, true);
+    await vi.waitFor(() => expect(fs.writeFile).toHaveBeenCalledOnce());
+
+    expect(await runner.abortAll()).toEqual(['/home/project/index.js']);
+    expect(fs.rm).toHaveBeenCalledWith('/home/project/index.js', { force: true });
+    expect(runner.actions.get().action_1.status).toBe('aborted');
+  });
+
+  it('should keep files that were written completely', async () => {
+    const { runner, fs, add } = createRunner();
+    const data = add('action_1', { type: 'file', filePath: '/home/project/index.js', content: 'console.log(1);' });
+
+    await runner.runAction(data);
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('complete'));
+
+    expect(await runner.abortAll()).toEqual([]);
+    expect(fs.rm).not.toHaveBeenCalled();
+  });
+
+  it('should interrupt the running command and skip the queued actions', async () => {
+    const { runner, fs, shell, add } = createRunner();
+    const shellAction = add('action_1', { type: 'shell', content: 'npm install' });
+    const fileAction = add('action_2', { type: 'file', filePath: '/home/project/index.js', content: '' });
+
+    await runner.runAction(shellAction);
+    await runner.runAction(fileAction);
+    await vi.waitFor(() => expect(shell.executeCommand).toHaveBeenCalledOnce());
+
+    expect(await runner.abortAll()).toEqual(['/home/project/index.js']);
+    expect(shell.interrupt).toHaveBeenCalledOnce();
+
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('aborted'));
+
+    expect(runner.actions.get().action_2.status).toBe('aborted');
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('ActionRunner', () => {
+  it('should report failed commands, but not commands that never ran', async () => {
+    const onCommandFailed = vi.fn();
+    const { runner, shell, add } = createRunner({ onCommandFailed });
+
+    shell.executeCommand.mockResolvedValueOnce(undefined);
+    shell.executeCommand.mockResolvedValueOnce({ exitCode: 1, output: 'npm ERR! missing script: test' });
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'npm install' }));
+    await runner.runAction(add('action_2', { type: 'shell', content: 'npm test' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_2.status).toBe('failed'));
+
+    expect(runner.actions.get().action_1).toMatchObject({ status: 'failed', error: 'Action failed' });
+    expect(onCommandFailed).toHaveBeenCalledOnce();
+    expect(onCommandFailed).toHaveBeenCalledWith({
+      type: 'shell',
+      command: 'npm test',
+      exitCode: 1,
+      output: 'npm ERR! missing script: test',
+    });
+  });
+});
+
+describe('ActionRunner approvals', () => {
+  const succeeded = { exitCode: 0, output: '' };
+
+  it('should skip denied commands without asking', async () => {
+    const { runner, shell, add } = createRunner({ evaluateCommand: () => 'deny' });
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'rm -rf ~' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('skipped'));
+
+    expect(runner.actions.get().action_1.blocked).toBe(true);
+    expect(shell.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the approval of the user', async () => {
+    const onCommandDecision = vi.fn();
+    const { runner, shell, add } = createRunner({ evaluateCommand: () => 'ask', onCommandDecision });
+
+    shell.executeCommand.mockResolvedValue(succeeded);
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'npm install' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('awaiting-approval'));
+
+    expect(shell.executeCommand).not.toHaveBeenCalled();
+
+    runner.approveCommand('action_1');
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('complete'));
+
+    expect(shell.executeCommand).toHaveBeenCalledWith(expect.any(String), 'npm install');
+    expect(onCommandDecision).toHaveBeenCalledWith('action_1', { approved: true });
+  });
+
+  it('should run the command as the user edited it', async () => {
+    const onCommandDecision = vi.fn();
+    const { runner, shell, add } = createRunner({ evaluateCommand: () => 'ask', onCommandDecision });
+
+    shell.executeCommand.mockResolvedValue(succeeded);
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'npm install' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('awaiting-approval'));
+
+    runner.approveCommand('action_1', 'pnpm install');
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('complete'));
+
+    expect(runner.actions.get().action_1.content).toBe('pnpm install');
+    expect(shell.executeCommand).toHaveBeenCalledWith(expect.any(String), 'pnpm install');
+    expect(onCommandDecision).toHaveBeenCalledWith('action_1', { approved: true, command: 'pnpm install' });
+  });
+
+  it('should skip commands the user skips', async () => {
+    const onCommandDecision = vi.fn();
+    const { runner, shell, add } = createRunner({ evaluateCommand: () => 'ask', onCommandDecision });
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'npm install' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('awaiting-approval'));
+
+    runner.skipCommand('action_1');
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('skipped'));
+
+    expect(runner.actions.get().action_1.blocked).toBeUndefined();
+    expect(shell.executeCommand).not.toHaveBeenCalled();
+    expect(onCommandDecision).toHaveBeenCalledWith('action_1', { approved: false });
+  });
+
+  it('should replay stored decisions without asking', async () => {
+    const evaluateCommand = vi.fn(() => 'ask' as const);
+    const onCommandDecision = vi.fn();
+
+    const { runner, shell, add } = createRunner({
+      evaluateCommand,
+      onCommandDecision,
+      getCommandDecision: () => ({ approved: true, command: 'pnpm install' }),
+    });
+
+    shell.executeCommand.mockResolvedValue(succeeded);
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'npm install' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('complete'));
+
+    expect(shell.executeCommand).toHaveBeenCalledWith(expect.any(String), 'pnpm install');
+    expect(evaluateCommand).not.toHaveBeenCalled();
+    expect(onCommandDecision).not.toHaveBeenCalled();
+  });
+
+  it('should abort commands that wait for approval', async () => {
+    const { runner, shell, add } = createRunner({ evaluateCommand: () => 'ask' });
+
+    await runner.runAction(add('action_1', { type: 'shell', content: 'npm install' }));
+    await vi.waitFor(() => expect(runner.actions.get().action_1.status).toBe('awaiting-approval'));
+
+    await runner.abortAll();
+    runner.approveCommand('action_1');
+
+    // lets the queued execution finish
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(runner.actions.get().action_1.status).toBe('aborted');
+    expect(shell.interrupt).not.toHaveBeenCalled();
+    expect(shell.executeCommand).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,12 @@
 import { WebContainer, type WebContainerProcess } from '@webcontainer/api';
 import { atom, map, type MapStore } from 'nanostores';
 import * as nodePath from 'node:path';
-import type { BoltAction } from '~/types/actions';
+import type { BoltAction, CommandFailure, PatchFailure } from '~/types/actions';
+import type { CommandDecision, CommandVerdict } from '~/types/command-policy';
+import { cleanTerminalOutput, CommandError, INTERRUPTED_EXIT_CODE } from '~/utils/action-failures';
+import { WORK_DIR } from '~/utils/constants';
 import { createScopedLogger } from '~/utils/logger';
+import { applyPatch, PatchError } from '~/utils/patch';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
 import type { ITerminal } from '~/types/terminal';
@@ -10,41 +14,88 @@ import type { BoltShell } from '~/utils/shell';
 
 const logger = createScopedLogger('ActionRunner');
 
-export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
+export type ActionStatus = 'pending' | 'awaiting-approval' | 'running' | 'complete' | 'skipped' | 'aborted' | 'failed';
 
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
   abort: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+
+  // set when a command was skipped because it matches the deny list of the command policy
+  blocked?: boolean;
 };
 
 export type FailedActionState = BoltAction &
   Omit<BaseActionState, 'status'> & {
     status: Extract<ActionStatus, 'failed'>;
     error: string;
+
+    // exit code and output of failed shell and start actions
+    exitCode?: number;
+    output?: string;
   };
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'content' | 'blocked'>>;
 
 export type ActionStateUpdate =
   | BaseActionUpdate
-  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
+  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string; exitCode?: number; output?: string });
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
+export interface ActionRunnerOptions {
+  /**
+   * Called when a patch doesn't apply, so the full file can be requested from the model instead.
+   */
+  onPatchFailed?: (failure: PatchFailure) => void;
+
+  /**
+   * Called when a shell or start action exits with an error, unless it was interrupted by another command.
+   */
+  onCommandFailed?: (failure: CommandFailure) => void;
+
+  /**
+   * Returns the decision the user already made for a shell or start action, e.g. in an earlier session.
+   */
+  getCommandDecision?: (actionId: string) => CommandDecision | undefined;
+
+  /**
+   * Decides whether a command runs without a decision of the user, commands run by default.
+   */
+  evaluateCommand?: (command: string) => CommandVerdict;
+
+  /**
+   * Called when the user approves or skips a command, so the decision can be stored with the chat.
+   */
+  onCommandDecision?: (actionId: string, decision: CommandDecision) => void;
+}
+
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
   #shellTerminal: () => BoltShell;
+  #options: ActionRunnerOptions;
+
+  // files that were created while their action was still streaming, they are removed if it is aborted
+  #partialFiles = new Set<string>();
+
+  // resolves the commands that wait for the user's approval
+  #approvals = new Map<string, (decision: CommandDecision | undefined) => void>();
+
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
 
-  constructor(webcontainerPromise: Promise<WebContainer>, getShellTerminal: () => BoltShell) {
+  constructor(
+    webcontainerPromise: Promise<WebContainer>,
+    getShellTerminal: () => BoltShell,
+    options: ActionRunnerOptions = {},
+  ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
+    this.#options = options;
 
   }
 
@@ -73,10 +124,59 @@ export class ActionRunner {
     });
 
     this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
+      if (!abortController.signal.aborted) {
+        this.#updateAction(actionId, { status: 'running' });
+      }
     });
   }
 
+  /**
+   * Aborts the actions that haven't finished and interrupts a running shell command. A dev server that is
+   * already running is kept. Returns the paths of the aborted file actions, their editor documents may
+   * still show the content that was streamed so far.
+   */
+  async abortAll() {
+    const actions = Object.values(this.actions.get()).filter(
+      ({ status, type }) =>
+        status === 'pending' || status === 'awaiting-approval' || (status === 'running' && type !== 'start'),
+    );
+
+    const runningCommand = actions.some(({ status, type }) => status === 'running' && type === 'shell');
+
+    for (const action of actions) {
+      action.abort();
+    }
+
+    if (runningCommand) {
+      await this.#shellTerminal().interrupt();
+    }
+
+    const webcontainer = await this.#webcontainer;
+
+    for (const filePath of this.#partialFiles) {
+      await webcontainer.fs.rm(filePath, { force: true });
+      logger.debug(`Removed partially written file ${filePath}`);
+    }
+
+    this.#partialFiles.clear();
+
+    return actions.flatMap((action) => (action.type === 'file' ? [action.filePath] : []));
+  }
+
+  /**
+   * Runs a command that waits for approval, optionally with the command the user edited.
+   */
+  approveCommand(actionId: string, command?: string) {
+    const action = this.actions.get()[actionId];
+    const edited = command !== undefined && command !== action?.content;
+
+    this.#approvals.get(actionId)?.({ approved: true, ...(edited ? { command } : {}) });
+  }
+
+  skipCommand(actionId: string) {
+    this.#approvals.get(actionId)?.({ approved: false });
+  }
+
   async runAction(data: ActionCallbackData, isStreaming: boolean = false) {
     const { actionId } = data;
     const action = this.actions.get()[actionId];
@@ -85,7 +185,7 @@ export class ActionRunner {
       unreachable(`Action ${actionId} not found`);
     }
 
-    if (action.executed) {
+    if (action.executed || action.abortSignal.aborted) {
       return;
     }
     if (isStreaming && action.type !== 'file') {
@@ -104,7 +204,30 @@ export class ActionRunner {
   }
 
   async #executeAction(actionId: string, isStreaming: boolean = false) {
-    const action = this.actions.get()[actionId];
+    let action = this.actions.get()[actionId];
+
+    // actions that were queued before they were aborted
+    if (action.abortSignal.aborted) {
+      return;
+    }
+
+    if (action.type === 'shell' || action.type === 'start') {
+      const command = await this.#getApprovedCommand(actionId, action);
+
+      if (action.abortSignal.aborted) {
+        return;
+      }
+
+      if (command === undefined) {
+        this.#updateAction(actionId, { status: 'skipped' });
+        return;
+      }
+
+      if (command !== action.content) {
+        this.#updateAction(actionId, { content: command });
+        action = this.actions.get()[actionId];
+      }
+    }
 
     this.#updateAction(actionId, { status: 'running' });
 
@@ -115,7 +238,23 @@ export class ActionRunner {
           break;
         }
         case 'file': {
-          await this.#runFileAction(action);
+          await this.#runFileAction(action, isStreaming);
+          break;
+        }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          break;
+        }
+        case 'delete': {
+          await this.#runDeleteAction(action);
+          break;
+        }
+        case 'move': {
+          await this.#runMoveAction(action);
+          break;
+        }
+        case 'mkdir': {
+          await this.#runMkdirAction(action);
           break;
         }
         case 'start': {
@@ -126,7 +265,35 @@ export class ActionRunner {
 
       this.#updateAction(actionId, { status: isStreaming ? 'running' : action.abortSignal.aborted ? 'aborted' : 'complete' });
     } catch (error) {
-      this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+      // an interrupted command fails, but it was stopped on purpose
+      if (action.abortSignal.aborted) {
+        this.#updateAction(actionId, { status: 'aborted' });
+        return;
+      }
+
+      if (error instanceof CommandError) {
+        this.#updateAction(actionId, {
+          status: 'failed',
+          error: error.message,
+          exitCode: error.exitCode,
+          output: error.output,
+        });
+
+        if (error.exitCode !== INTERRUPTED_EXIT_CODE && (action.type === 'shell' || action.type === 'start')) {
+          this.#options.onCommandFailed?.({
+            type: action.type,
+            command: action.content,
+            exitCode: error.exitCode,
+            output: error.output,
+          });
+        }
+      } else {
+        this.#updateAction(actionId, {
+          status: 'failed',
+          error: error instanceof PatchError ? error.message : 'Action failed',
+        });
+      }
+
       logger.error(`[${action.type}]:Action failed\n\n`, error);
 
       // re-throw the error to be caught in the promise chain
@@ -134,6 +301,44 @@ export class ActionRunner {
     }
   }
 
+  /**
+   * Returns the command to run, or `undefined` if the command is skipped. Commands that need the user's
+   * approval wait for `approveCommand` or `skipCommand`.
+   */
+  async #getApprovedCommand(actionId: string, action: ActionState) {
+    let decision = this.#options.getCommandDecision?.(actionId);
+
+    if (!decision) {
+      const verdict = this.#options.evaluateCommand?.(action.content) ?? 'allow';
+
+      if (verdict === 'allow') {
+        return action.content;
+      }
+
+      if (verdict === 'deny') {
+        this.#updateAction(actionId, { blocked: true });
+        return undefined;
+      }
+
+      this.#updateAction(actionId, { status: 'awaiting-approval' });
+
+      decision = await new Promise<CommandDecision | undefined>((resolve) => {
+        this.#approvals.set(actionId, resolve);
+        action.abortSignal.addEventListener('abort', () => resolve(undefined), { once: true });
+      });
+
+      this.#approvals.delete(actionId);
+
+      if (!decision) {
+        return undefined;
+      }
+
+      this.#options.onCommandDecision?.(actionId, decision);
+    }
+
+    return decision.approved ? decision.command ?? action.content : undefined;
+  }
+
   async #runShellAction(action: ActionState) {
     if (action.type !== 'shell') {
       unreachable('Expected shell action');
@@ -143,11 +348,16 @@ export class ActionRunner {
     if (!shell || !shell.terminal || !shell.process) {
       unreachable('Shell terminal not found');
     }
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content)
-    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`)
-    if (resp?.exitCode != 0) {
-      throw new Error("Failed To Execute Shell Command");
+    const resp = await shell.executeCommand(this.runnerId.get(), action.content);
+    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+
+    // the command never ran, so there is no output for the model to fix
+    if (!resp) {
+      throw new Error('Shell terminal not ready');
+    }
 
+    if (resp.exitCode !== 0) {
+      throw new CommandError('Failed To Execute Shell Command', resp.exitCode, cleanTerminalOutput(resp.output));
     }
   }
 
@@ -163,20 +373,29 @@ export class ActionRunner {
     if (!shell || !shell.terminal || !shell.process) {
       unreachable('Shell terminal not found');
     }
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content)
-    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`)
+    const resp = await shell.executeCommand(this.runnerId.get(), action.content);
+    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
 
-    if (resp?.exitCode != 0) {
-      throw new Error("Failed To Start Application");
+    if (!resp) {
+      throw new Error('Shell terminal not ready');
     }
-    return resp
+
+    if (resp.exitCode !== 0) {
+      throw new CommandError('Failed To Start Application', resp.exitCode, cleanTerminalOutput(resp.output));
+    }
+
+    return resp;
   }
 
-  async #runFileAction(action: ActionState) {
+  async #runFileAction(action: ActionState, isStreaming: boolean) {
     if (action.type !== 'file') {
       unreachable('Expected file action');
     }
 
+    if (action.abortSignal.aborted) {
+      return;
+    }
+
     const webcontainer = await this.#webcontainer;
 
     let folder = nodePath.dirname(action.filePath);
@@ -195,14 +414,106 @@ export class ActionRunner {
 
     try {
       await webcontainer.fs.writeFile(action.filePath, action.content);
+
+      if (isStreaming) {
+        this.#partialFiles.add(action.filePath);
+      } else {
+        this.#partialFiles.delete(action.filePath);
+      }
+
       logger.debug(`File written ${action.filePath}`);
     } catch (error) {
       logger.error('Failed to write file\n\n', error);
     }
   }
+
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+
+    try {
+      let content: string;
+
+      try {
+        content = await webcontainer.fs.readFile(action.filePath, 'utf-8');
+      } catch {
+        throw new PatchError(`${action.filePath} does not exist, patches can only change existing files`);
+      }
+
+      await webcontainer.fs.writeFile(action.filePath, applyPatch(content, action.content));
+      logger.debug(`File patched ${action.filePath}`);
+    } catch (error) {
+      if (error instanceof PatchError) {
+        this.#options.onPatchFailed?.({ filePath: action.filePath, error: error.message });
+      }
+
+      throw error;
+    }
+  }
+
+  async #runDeleteAction(action: ActionState) {
+    if (action.type !== 'delete') {
+      unreachable('Expected delete action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const path = getProjectPath(action.filePath);
+
+    await webcontainer.fs.rm(path, { recursive: true, force: true });
+    logger.debug(`Deleted ${path}`);
+  }
+
+  async #runMoveAction(action: ActionState) {
+    if (action.type !== 'move') {
+      unreachable('Expected move action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const path = getProjectPath(action.filePath);
+    const newPath = getProjectPath(action.newPath);
+    const folder = nodePath.dirname(newPath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.rename(path, newPath);
+    logger.debug(`Moved ${path} to ${newPath}`);
+  }
+
+  async #runMkdirAction(action: ActionState) {
+    if (action.type !== 'mkdir') {
+      unreachable('Expected mkdir action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const path = getProjectPath(action.dirPath);
+
+    await webcontainer.fs.mkdir(path, { recursive: true });
+    logger.debug(`Created folder ${path}`);
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
     this.actions.setKey(id, { ...actions[id], ...newState });
   }
 }
+
+/**
+ * Normalizes a path relative to the project folder. Paths outside of it and the project folder itself are
+ * rejected, so a delete or move can't take the whole project with it.
+ */
+function getProjectPath(path: string | undefined) {
+  const absolute = nodePath.resolve(WORK_DIR, path ?? '');
+  const normalized = nodePath.relative(WORK_DIR, absolute);
+
+  if (!normalized || normalized.startsWith('..')) {
+    throw new Error(`Invalid path '${path}'`);
+  }
+
+  return normalized;
+}
@@ -1,4 +1,13 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction } from '~/types/actions';
+import type {
+  ActionType,
+  BoltAction,
+  BoltActionData,
+  DeleteAction,
+  FileAction,
+  MkdirAction,
+  MoveAction,
+  PatchAction,
+} from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
@@ -36,7 +45,7 @@ interface ElementFactoryProps {
   messageId: string;
 }
 
-type ElementFactory = (props: ElementFactoryProps) => string;
+export type ElementFactory = (props: ElementFactoryProps) => string;
 
 export interface StreamingMessageParserOptions {
   callbacks?: ParserCallbacks;
@@ -98,6 +107,11 @@ export class StreamingMessageParser {
               content += '\n';
             }
 
+            // leading whitespace of the first line is part of the diff context
+            if ('type' in currentAction && currentAction.type === 'patch') {
+              content = currentAction.content.replace(/^\s*\n|\s+$/g, '');
+            }
+
             currentAction.content = content;
 
             this._options.callbacks?.onActionClose?.({
@@ -144,16 +158,23 @@ export class StreamingMessageParser {
             const actionEndIndex = input.indexOf('>', actionOpenIndex);
 
             if (actionEndIndex !== -1) {
-              state.insideAction = true;
-
-              state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
-
-              this._options.callbacks?.onActionOpen?.({
-                artifactId: currentArtifact.id,
-                messageId,
-                actionId: String(state.actionId++),
-                action: state.currentAction as BoltAction,
-              });
+              const action = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+              const actionId = String(state.actionId++);
+
+              this._options.callbacks?.onActionOpen?.({ artifactId: currentArtifact.id, messageId, actionId, action });
+
+              // actions without content like deletes can be self-closing
+              if (input[actionEndIndex - 1] === '/') {
+                this._options.callbacks?.onActionClose?.({
+                  artifactId: currentArtifact.id,
+                  messageId,
+                  actionId,
+                  action,
+                });
+              } else {
+                state.insideAction = true;
+                state.currentAction = action;
+              }
 
               i = actionEndIndex + 1;
             } else {
@@ -264,19 +285,37 @@ export class StreamingMessageParser {
       content: '',
     };
 
-    if (actionType === 'file') {
+    if (actionType === 'file' || actionType === 'patch' || actionType === 'delete' || actionType === 'move') {
       const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
 
       if (!filePath) {
         logger.debug('File path not specified');
       }
 
-      (actionAttributes as FileAction).filePath = filePath;
+      (actionAttributes as FileAction | PatchAction | DeleteAction | MoveAction).filePath = filePath;
+
+      if (actionType === 'move') {
+        const newPath = this.#extractAttribute(actionTag, 'newPath') as string;
+
+        if (!newPath) {
+          logger.debug('New path not specified');
+        }
+
+        (actionAttributes as MoveAction).newPath = newPath;
+      }
+    } else if (actionType === 'mkdir') {
+      const dirPath = this.#extractAttribute(actionTag, 'dirPath') as string;
+
+      if (!dirPath) {
+        logger.debug('Directory path not specified');
+      }
+
+      (actionAttributes as MkdirAction).dirPath = dirPath;
     } else if (!(['shell', 'start'].includes(actionType))) {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    return actionAttributes as BoltAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
@@ -285,7 +324,7 @@ export class StreamingMessageParser {
   }
 }
 
-const createArtifactElement: ElementFactory = (props) => {
+export const createArtifactElement: ElementFactory = (props) => {
   const elementProps = [
     'class="__boltArtifact__"',
     ...Object.entries(props).map(([key, value]) => {
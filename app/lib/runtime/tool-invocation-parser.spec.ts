@@ -0,0 +1,57 @@
+import type { ToolInvocation } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import type { ActionCallback, ArtifactCallback } from './message-parser';
+import { ToolInvocationParser } from './tool-invocation-parser';
+
+const invocations: ToolInvocation[] = [
+  {
+    state: 'result',
+    toolCallId: 'call_1',
+    toolName: 'write_file',
+    args: { path: 'index.js', content: 'console.log(1);' },
+    result: {},
+  },
+  { state: 'call', toolCallId: 'call_2', toolName: 'run_shell', args: { command: 'npm install' } },
+  { state: 'partial-call', toolCallId: 'call_3', toolName: 'start_server', args: {} },
+];
+
+describe('ToolInvocationParser', () => {
+  it('should translate tool invocations into artifact and action callbacks', () => {
+    const callbacks = {
+      onArtifactOpen: vi.fn<ArtifactCallback>(),
+      onArtifactClose: vi.fn<ArtifactCallback>(),
+      onActionOpen: vi.fn<ActionCallback>(),
+      onActionClose: vi.fn<ActionCallback>(),
+    };
+
+    const parser = new ToolInvocationParser({ callbacks, artifactElement: () => '[artifact]' });
+
+    expect(parser.parse('message_1', invocations, 'Todo app', false)).toBe('[artifact]');
+
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledWith({
+      messageId: 'message_1',
+      id: 'tools-message_1',
+      title: 'Todo app',
+    });
+    expect(callbacks.onActionClose.mock.calls.map(([data]) => data.action)).toEqual([
+      { type: 'file', filePath: 'index.js', content: 'console.log(1);' },
+      { type: 'shell', content: 'npm install' },
+    ]);
+    expect(callbacks.onArtifactClose).not.toHaveBeenCalled();
+
+    const completed: ToolInvocation[] = [
+      ...invocations.slice(0, 2),
+      { state: 'call', toolCallId: 'call_3', toolName: 'start_server', args: { command: 'npm run dev' } },
+    ];
+
+    expect(parser.parse('message_1', completed, 'Todo app', true)).toBe('');
+
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose).toHaveBeenCalledTimes(3);
+    expect(callbacks.onActionClose.mock.calls[2][0]).toMatchObject({
+      actionId: 'call_3',
+      action: { type: 'start', content: 'npm run dev' },
+    });
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+  });
+});
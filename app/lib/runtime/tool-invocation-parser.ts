@@ -0,0 +1,114 @@
+import type { ToolInvocation } from 'ai';
+import type { BoltAction } from '~/types/actions';
+import { FILE_TOOL_NAMES, type BoltToolArgs, type BoltToolName, type FileToolName } from '~/types/tools';
+import { createScopedLogger } from '~/utils/logger';
+import { createArtifactElement, type ElementFactory, type ParserCallbacks } from './message-parser';
+
+const logger = createScopedLogger('ToolInvocationParser');
+
+export interface ToolInvocationParserOptions {
+  callbacks?: ParserCallbacks;
+  artifactElement?: ElementFactory;
+}
+
+interface MessageState {
+  artifactId: string;
+  title: string;
+  closed: boolean;
+  actionIds: Set<string>;
+}
+
+export function toolInvocationToAction(toolName: string, args: unknown): BoltAction | undefined {
+  switch (toolName as BoltToolName) {
+    case 'write_file': {
+      const { path, content } = args as BoltToolArgs['write_file'];
+
+      return { type: 'file', filePath: path, content };
+    }
+    case 'run_shell': {
+      return { type: 'shell', content: (args as BoltToolArgs['run_shell']).command };
+    }
+    case 'start_server': {
+      return { type: 'start', content: (args as BoltToolArgs['start_server']).command };
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Counterpart of `StreamingMessageParser` for responses generated in tool calling mode. The tool
+ * invocations of a message are mapped to the actions of one artifact, so the workbench and the
+ * `ActionRunner` don't need to know which mode produced them.
+ */
+export class ToolInvocationParser {
+  #messages = new Map<string, MessageState>();
+
+  constructor(private _options: ToolInvocationParserOptions = {}) {}
+
+  /**
+   * Like `StreamingMessageParser.parse` this returns the output to append to the message, which is the
+   * artifact element once the first action of the message has been found.
+   */
+  parse(messageId: string, toolInvocations: ToolInvocation[], title: string, isComplete: boolean) {
+    const { callbacks } = this._options;
+
+    let state = this.#messages.get(messageId);
+    let output = '';
+
+    for (const invocation of toolInvocations) {
+      // arguments are only complete once the call has been fully streamed
+      if (invocation.state === 'partial-call') {
+        continue;
+      }
+
+      // the read-only file tools don't change the project
+      if (FILE_TOOL_NAMES.includes(invocation.toolName as FileToolName)) {
+        continue;
+      }
+
+      const action = toolInvocationToAction(invocation.toolName, invocation.args);
+
+      if (!action) {
+        logger.warn(`Unknown tool: ${invocation.toolName}`);
+        continue;
+      }
+
+      if (!state) {
+        state = { artifactId: `tools-${messageId}`, title, closed: false, actionIds: new Set() };
+
+        this.#messages.set(messageId, state);
+
+        callbacks?.onArtifactOpen?.({ messageId, id: state.artifactId, title });
+
+        const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+        output += artifactFactory({ messageId });
+      }
+
+      if (state.actionIds.has(invocation.toolCallId)) {
+        continue;
+      }
+
+      state.actionIds.add(invocation.toolCallId);
+
+      const data = { artifactId: state.artifactId, messageId, actionId: invocation.toolCallId, action };
+
+      callbacks?.onActionOpen?.(data);
+      callbacks?.onActionClose?.(data);
+    }
+
+    if (state && isComplete && !state.closed) {
+      state.closed = true;
+
+      callbacks?.onArtifactClose?.({ messageId, id: state.artifactId, title: state.title });
+    }
+
+    return output;
+  }
+
+  reset() {
+    this.#messages.clear();
+  }
+}
@@ -0,0 +1,76 @@
+import Cookies from 'js-cookie';
+import { atom } from 'nanostores';
+import type { ApiKeyStatus } from '~/types/api-keys';
+import { parseChatError } from '~/utils/errors';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ApiKeys');
+
+// older versions stored the keys as plain JSON in a cookie readable by scripts
+const kLegacyApiKeys = 'apiKeys';
+
+/**
+ * Providers the user stored a key for, the keys themselves only exist in the encrypted server side vault.
+ */
+export const apiKeyStatusStore = atom<Record<string, ApiKeyStatus>>({});
+
+async function request(method: 'GET' | 'PUT' | 'DELETE', body?: object) {
+  const response = await fetch('/api/keys', {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(parseChatError(await response.text()).message);
+  }
+
+  const { keys } = (await response.json()) as { keys: ApiKeyStatus[] };
+
+  apiKeyStatusStore.set(Object.fromEntries(keys.map((status) => [status.provider, status])));
+}
+
+export async function loadApiKeyStatus() {
+  await migrateLegacyApiKeys();
+  await request('GET');
+}
+
+/**
+ * Stores the key of a provider, replacing (rotating) the previous one.
+ */
+export async function storeApiKey(provider: string, key: string) {
+  await request('PUT', { provider, key });
+}
+
+export async function revokeApiKey(provider: string) {
+  await request('DELETE', { provider });
+}
+
+async function migrateLegacyApiKeys() {
+  const legacyApiKeys = Cookies.get(kLegacyApiKeys);
+
+  if (!legacyApiKeys) {
+    return;
+  }
+
+  let keys: Record<string, string> = {};
+
+  try {
+    keys = JSON.parse(legacyApiKeys);
+  } catch (error) {
+    logger.error('Failed to parse the stored API keys', error);
+  }
+
+  for (const [provider, key] of Object.entries(keys)) {
+    if (!key) {
+      continue;
+    }
+
+    try {
+      await storeApiKey(provider, key);
+    } catch (error) {
+      logger.error(`Failed to move the ${provider} API key into the vault`, error);
+    }
+  }
+
+  Cookies.remove(kLegacyApiKeys, { path: '/' });
+}
@@ -0,0 +1,38 @@
+import { atom, map } from 'nanostores';
+import type { CommandDecision, CommandPolicy } from '~/types/command-policy';
+import { DEFAULT_COMMAND_POLICY } from '~/utils/command-policy';
+
+export const kCommandPolicy = 'bolt_command_policy';
+
+export const commandPolicyStore = atom<CommandPolicy>({ ...DEFAULT_COMMAND_POLICY, ...readPolicy() });
+
+/**
+ * Decisions of the user for the commands of the current chat, keyed by message and action id.
+ */
+export const commandDecisionsStore = map<Record<string, CommandDecision>>({});
+
+function readPolicy(): Partial<CommandPolicy> {
+  if (import.meta.env.SSR) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(kCommandPolicy) ?? '') as Partial<CommandPolicy>;
+  } catch {
+    return {};
+  }
+}
+
+export function setCommandPolicy(policy: Partial<CommandPolicy>) {
+  commandPolicyStore.set({ ...commandPolicyStore.get(), ...policy });
+
+  localStorage.setItem(kCommandPolicy, JSON.stringify(commandPolicyStore.get()));
+}
+
+export function getCommandDecision(messageId: string, actionId: string): CommandDecision | undefined {
+  return commandDecisionsStore.get()[`${messageId}:${actionId}`];
+}
+
+export function setCommandDecision(messageId: string, actionId: string, decision: CommandDecision) {
+  commandDecisionsStore.setKey(`${messageId}:${actionId}`, decision);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getEnhancerProjectContext } from './enhancer';
+import type { FileMap } from './files';
+
+describe('getEnhancerProjectContext', () => {
+  it('should list the sorted relative paths of files and include the package.json', () => {
+    const files: FileMap = {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/main.tsx': { type: 'file', content: '', isBinary: false },
+      '/home/project/package.json': { type: 'file', content: '{"name":"app"}', isBinary: false },
+      '/home/project/index.html': { type: 'file', content: '', isBinary: false },
+    };
+
+    expect(getEnhancerProjectContext(files)).toEqual({
+      files: ['index.html', 'package.json', 'src/main.tsx'],
+      packageJson: '{"name":"app"}',
+    });
+  });
+
+  it('should skip empty projects and binary package.json files', () => {
+    expect(getEnhancerProjectContext({})).toBeUndefined();
+
+    expect(
+      getEnhancerProjectContext({ '/home/project/package.json': { type: 'file', content: '', isBinary: true } }),
+    ).toEqual({ files: ['package.json'] });
+  });
+});
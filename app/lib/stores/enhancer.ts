@@ -0,0 +1,94 @@
+import { atom } from 'nanostores';
+import type { EnhancerPreset, EnhancerProjectContext } from '~/types/enhancer';
+import { WORK_DIR } from '~/utils/constants';
+import { BUILT_IN_ENHANCER_PRESETS, DEFAULT_ENHANCER_PRESET_ID } from '~/utils/enhancer';
+import type { FileMap } from './files';
+
+export const kEnhancerPresets = 'bolt_enhancer_presets';
+export const kEnhancerSettings = 'bolt_enhancer_settings';
+
+export interface EnhancerSettings {
+  presetId: string;
+
+  /**
+   * Sends the file tree and the `package.json` of the project along with the prompt.
+   */
+  includeProject: boolean;
+}
+
+const DEFAULT_SETTINGS: EnhancerSettings = { presetId: DEFAULT_ENHANCER_PRESET_ID, includeProject: true };
+
+/**
+ * Presets the user defined, the built-in ones aren't stored.
+ */
+export const customEnhancerPresetsStore = atom<EnhancerPreset[]>(readStorage(kEnhancerPresets, []));
+
+export const enhancerSettingsStore = atom<EnhancerSettings>({
+  ...DEFAULT_SETTINGS,
+  ...readStorage(kEnhancerSettings, {}),
+});
+
+function readStorage<T>(key: string, fallback: T): T {
+  if (import.meta.env.SSR) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? '') as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function getEnhancerPresets() {
+  return [...BUILT_IN_ENHANCER_PRESETS, ...customEnhancerPresetsStore.get()];
+}
+
+export function setEnhancerSettings(settings: Partial<EnhancerSettings>) {
+  enhancerSettingsStore.set({ ...enhancerSettingsStore.get(), ...settings });
+
+  localStorage.setItem(kEnhancerSettings, JSON.stringify(enhancerSettingsStore.get()));
+}
+
+export function addEnhancerPreset(name: string, instructions: string) {
+  const preset: EnhancerPreset = { id: `custom-${Date.now()}`, name, instructions };
+
+  setCustomPresets([...customEnhancerPresetsStore.get(), preset]);
+
+  return preset;
+}
+
+export function removeEnhancerPreset(id: string) {
+  setCustomPresets(customEnhancerPresetsStore.get().filter((preset) => preset.id !== id));
+
+  if (enhancerSettingsStore.get().presetId === id) {
+    setEnhancerSettings({ presetId: DEFAULT_ENHANCER_PRESET_ID });
+  }
+}
+
+function setCustomPresets(presets: EnhancerPreset[]) {
+  customEnhancerPresetsStore.set(presets);
+
+  localStorage.setItem(kEnhancerPresets, JSON.stringify(presets));
+}
+
+/**
+ * Collects the file tree and the `package.json` of the project for the enhancer.
+ */
+export function getEnhancerProjectContext(files: FileMap): EnhancerProjectContext | undefined {
+  const paths = Object.entries(files)
+    .filter(([, dirent]) => dirent?.type === 'file')
+    .map(([path]) => path.slice(WORK_DIR.length + 1))
+    .sort();
+
+  if (paths.length === 0) {
+    return undefined;
+  }
+
+  const packageJson = files[`${WORK_DIR}/package.json`];
+
+  return {
+    files: paths,
+    ...(packageJson?.type === 'file' && !packageJson.isBinary ? { packageJson: packageJson.content } : {}),
+  };
+}
@@ -3,6 +3,8 @@ import { getEncoding } from 'istextorbinary';
 import { map, type MapStore } from 'nanostores';
 import { Buffer } from 'node:buffer';
 import * as nodePath from 'node:path';
+import { FileIndex } from '~/lib/retrieval/file-index';
+import type { FileSnapshot } from '~/types/tools';
 import { bufferWatchEvents } from '~/utils/buffer';
 import { WORK_DIR } from '~/utils/constants';
 import { computeFileModifications } from '~/utils/diff';
@@ -13,6 +15,13 @@ const logger = createScopedLogger('FilesStore');
 
 const utf8TextDecoder = new TextDecoder('utf8', { fatal: true });
 
+// keeps chat requests small, larger files are most likely generated or data files
+const MAX_SNAPSHOT_FILE_SIZE = 100_000;
+const MAX_SNAPSHOT_SIZE = 2_000_000;
+
+// lock files match almost every dependency name without telling the model anything useful
+const UNINDEXED_FILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
 export interface File {
   type: 'file';
   content: string;
@@ -47,6 +56,11 @@ export class FilesStore {
    */
   files: MapStore<FileMap> = import.meta.hot?.data.files ?? map({});
 
+  /**
+   * Search index over the text files, used to find the files relevant to a message.
+   */
+  fileIndex: FileIndex = import.meta.hot?.data.fileIndex ?? new FileIndex();
+
   get filesCount() {
     return this.#size;
   }
@@ -57,6 +71,7 @@ export class FilesStore {
     if (import.meta.hot) {
       import.meta.hot.data.files = this.files;
       import.meta.hot.data.modifiedFiles = this.#modifiedFiles;
+      import.meta.hot.data.fileIndex = this.fileIndex;
     }
 
     this.#init();
@@ -72,6 +87,31 @@ export class FilesStore {
     return dirent;
   }
 
+  /**
+   * Returns the text files of the project with paths relative to the working directory.
+   */
+  getSnapshot(): FileSnapshot {
+    const snapshot: FileSnapshot = {};
+
+    let size = 0;
+
+    for (const [filePath, dirent] of Object.entries(this.files.get())) {
+      if (dirent?.type !== 'file' || dirent.isBinary || dirent.content.length > MAX_SNAPSHOT_FILE_SIZE) {
+        continue;
+      }
+
+      if (size + dirent.content.length > MAX_SNAPSHOT_SIZE) {
+        logger.warn('Project is too large to be sent completely, skipping remaining files');
+        break;
+      }
+
+      snapshot[nodePath.relative(WORK_DIR, filePath)] = dirent.content;
+      size += dirent.content.length;
+    }
+
+    return snapshot;
+  }
+
   getFileModifications() {
     return computeFileModifications(this.files.get(), this.#modifiedFiles);
   }
@@ -104,6 +144,7 @@ export class FilesStore {
 
       // we immediately update the file and don't rely on the `change` event coming from the watcher
       this.files.setKey(filePath, { type: 'file', content, isBinary: false });
+      this.#indexFile(filePath, content, false);
 
       logger.info('File updated');
     } catch (error) {
@@ -137,6 +178,7 @@ export class FilesStore {
         }
         case 'remove_dir': {
           this.files.setKey(sanitizedPath, undefined);
+          this.fileIndex.deleteFolder(nodePath.relative(WORK_DIR, sanitizedPath));
 
           for (const [direntPath] of Object.entries(this.files)) {
             if (direntPath.startsWith(sanitizedPath)) {
@@ -167,12 +209,14 @@ export class FilesStore {
           }
 
           this.files.setKey(sanitizedPath, { type: 'file', content, isBinary });
+          this.#indexFile(sanitizedPath, content, isBinary);
 
           break;
         }
         case 'remove_file': {
           this.#size--;
           this.files.setKey(sanitizedPath, undefined);
+          this.fileIndex.delete(nodePath.relative(WORK_DIR, sanitizedPath));
           break;
         }
         case 'update_directory': {
@@ -183,6 +227,17 @@ export class FilesStore {
     }
   }
 
+  #indexFile(filePath: string, content: string, isBinary: boolean) {
+    const relativePath = nodePath.relative(WORK_DIR, filePath);
+
+    if (isBinary || content.length > MAX_SNAPSHOT_FILE_SIZE || UNINDEXED_FILES.includes(nodePath.basename(filePath))) {
+      this.fileIndex.delete(relativePath);
+      return;
+    }
+
+    this.fileIndex.set(relativePath, content);
+  }
+
   #decodeFileContent(buffer?: Uint8Array) {
     if (!buffer || buffer.byteLength === 0) {
       return '';
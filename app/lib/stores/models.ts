@@ -0,0 +1,47 @@
+import { atom } from 'nanostores';
+import type { ProviderStatus } from '~/types/model';
+import { updateModelList } from '~/utils/constants';
+import { parseChatError } from '~/utils/errors';
+import type { ModelInfo } from '~/utils/types';
+
+/**
+ * Whether each provider is configured and reachable, as last reported by the server.
+ */
+export const providerStatusStore = atom<Record<string, ProviderStatus>>({});
+
+/**
+ * Loads the models the server discovered. With `refresh` the server asks the providers again instead of
+ * answering from its cache, e.g. after the user started Ollama.
+ */
+export async function loadModels(refresh = false) {
+  const response = await fetch(refresh ? '/api/models?refresh=1' : '/api/models');
+
+  if (!response.ok) {
+    throw new Error(parseChatError(await response.text()).message);
+  }
+
+  const { models, providers } = (await response.json()) as { models: ModelInfo[]; providers: ProviderStatus[] };
+
+  providerStatusStore.set(Object.fromEntries(providers.map((status) => [status.name, status])));
+
+  return updateModelList(models);
+}
+
+/**
+ * Why the provider can't be used right now, if it can't.
+ */
+export function getProviderUnavailableReason(status: ProviderStatus | undefined) {
+  if (!status) {
+    return undefined;
+  }
+
+  if (!status.configured) {
+    return 'Not configured, add an API key or set its base URL';
+  }
+
+  if (status.reachable === false) {
+    return `Unreachable: ${status.error ?? 'unknown error'}`;
+  }
+
+  return undefined;
+}
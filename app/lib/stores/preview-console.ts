@@ -0,0 +1,111 @@
+import { PreviewMessageType, type PreviewMessage, type WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import { PREVIEW_BRIDGE_MESSAGE_TYPE } from '~/lib/webcontainer/preview-bridge';
+import { formatConsoleArgs, getPreviewPort, stripPreviewOrigins } from '~/utils/preview-console';
+
+// entries kept in the console, older ones are dropped
+const MAX_CONSOLE_ENTRIES = 200;
+
+const BRIDGE_MESSAGE_KINDS: PreviewConsoleEntryKind[] = ['log', 'info', 'warn', 'network'];
+
+// `console` entries are `console.error` calls, `network` entries are failed requests
+export type PreviewConsoleEntryKind = 'exception' | 'rejection' | 'console' | 'log' | 'info' | 'warn' | 'network';
+
+export interface PreviewConsoleEntry {
+  id: number;
+  kind: PreviewConsoleEntryKind;
+  message: string;
+  stack?: string;
+  port: number;
+  pathname: string;
+  timestamp: number;
+
+  // identical entries in a row are counted instead of repeated, e.g. errors thrown on every render
+  count: number;
+}
+
+/**
+ * Collects the console output of the previews. The WebContainer injects a script into every preview that
+ * forwards uncaught exceptions, unhandled rejections and `console.error` calls, the preview bridge posts
+ * console logs and failed requests.
+ */
+export class PreviewConsoleStore {
+  #webcontainer: Promise<WebContainer>;
+  #nextId = 0;
+
+  entries = atom<PreviewConsoleEntry[]>([]);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+
+    this.#init();
+  }
+
+  clear() {
+    this.entries.set([]);
+  }
+
+  async #init() {
+    const webcontainer = await this.#webcontainer;
+
+    webcontainer.on('preview-message', (message) => {
+      this.#add({ ...toEntry(message), port: message.port, pathname: message.pathname });
+    });
+
+    window.addEventListener('message', (event) => {
+      const port = getPreviewPort(event.origin);
+
+      if (port === undefined || event.data?.type !== PREVIEW_BRIDGE_MESSAGE_TYPE) {
+        return;
+      }
+
+      const { kind, message, stack, pathname } = event.data as BridgeMessage;
+
+      if (!BRIDGE_MESSAGE_KINDS.includes(kind)) {
+        return;
+      }
+
+      this.#add({
+        kind,
+        message: String(message),
+        stack: stripPreviewOrigins(stack),
+        port,
+        pathname: String(pathname),
+      });
+    });
+  }
+
+  #add(entry: Omit<PreviewConsoleEntry, 'id' | 'timestamp' | 'count'>) {
+    const entries = this.entries.get();
+    const last = entries.at(-1);
+
+    if (last && last.kind === entry.kind && last.message === entry.message && last.stack === entry.stack) {
+      this.entries.set([...entries.slice(0, -1), { ...last, count: last.count + 1, timestamp: Date.now() }]);
+      return;
+    }
+
+    this.entries.set([
+      ...entries.slice(-(MAX_CONSOLE_ENTRIES - 1)),
+      { ...entry, id: this.#nextId++, timestamp: Date.now(), count: 1 },
+    ]);
+  }
+}
+
+interface BridgeMessage {
+  kind: Extract<PreviewConsoleEntryKind, 'log' | 'info' | 'warn' | 'network'>;
+  message: string;
+  stack?: string;
+  pathname: string;
+}
+
+function toEntry(message: PreviewMessage): Pick<PreviewConsoleEntry, 'kind' | 'message' | 'stack'> {
+  if (message.type === PreviewMessageType.UncaughtException) {
+    return { kind: 'exception', message: message.message, stack: stripPreviewOrigins(message.stack) };
+  }
+
+  if (message.type === PreviewMessageType.UnhandledRejection) {
+    return { kind: 'rejection', message: message.message, stack: stripPreviewOrigins(message.stack) };
+  }
+
+  return { kind: 'console', message: formatConsoleArgs(message.args), stack: stripPreviewOrigins(message.stack) };
+}
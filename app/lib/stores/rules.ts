@@ -0,0 +1,37 @@
+import { atom } from 'nanostores';
+import type { ChatRules } from '~/types/rules';
+import { BOLT_RULES_FILE, WORK_DIR } from '~/utils/constants';
+import type { FileMap } from './files';
+
+export const kGlobalRules = 'bolt_global_rules';
+
+export const globalRulesStore = atom<string>(initStore());
+
+function initStore() {
+  if (!import.meta.env.SSR) {
+    return localStorage.getItem(kGlobalRules) ?? '';
+  }
+
+  return '';
+}
+
+export function setGlobalRules(rules: string) {
+  globalRulesStore.set(rules);
+
+  localStorage.setItem(kGlobalRules, rules);
+}
+
+/**
+ * Collects the rules for the next chat request from the project files and the global setting.
+ */
+export function getChatRules(files: FileMap): ChatRules {
+  const rulesFile = files[`${WORK_DIR}/${BOLT_RULES_FILE}`];
+
+  const project = rulesFile?.type === 'file' && !rulesFile.isBinary ? rulesFile.content.trim() : '';
+  const global = globalRulesStore.get().trim();
+
+  return {
+    ...(project ? { project } : {}),
+    ...(global ? { global } : {}),
+  };
+}
@@ -1,12 +1,19 @@
-import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
+import { atom, computed, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
+import { selectRelevantFiles } from '~/lib/retrieval/file-index';
 import { ActionRunner } from '~/lib/runtime/action-runner';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
+import type { CommandFailure, PatchFailure } from '~/types/actions';
 import type { ITerminal } from '~/types/terminal';
+import { getFixPrompt } from '~/utils/action-failures';
+import { evaluateCommand } from '~/utils/command-policy';
+import { getPreviewErrorsPrompt, isPreviewError } from '~/utils/preview-console';
 import { unreachable } from '~/utils/unreachable';
+import { commandPolicyStore, getCommandDecision, setCommandDecision } from './command-policy';
 import { EditorStore } from './editor';
 import { FilesStore, type FileMap } from './files';
+import { PreviewConsoleStore } from './preview-console';
 import { PreviewsStore } from './previews';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
@@ -33,6 +40,8 @@ export type WorkbenchViewType = 'code' | 'preview';
 
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
+  #previewConsoleStore = new PreviewConsoleStore(webcontainer);
+  #previewErrors = computed(this.#previewConsoleStore.entries, (entries) => entries.filter(isPreviewError));
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
@@ -47,6 +56,15 @@ export class WorkbenchStore {
   #boltTerminal: { terminal: ITerminal; process: WebContainerProcess } | undefined;
   showPreview = atom(false);
 
+  // patches of the last response that didn't apply, the full files can be requested instead
+  failedPatches = atom<PatchFailure[]>([]);
+
+  // the last command that failed, it is sent to the model when auto-fix is enabled
+  commandFailure = atom<CommandFailure | undefined>();
+
+  // a message from the workbench, e.g. a fix request, it is sent to the chat once the current response is done
+  chatRequest = atom<string | undefined>();
+
   constructor() {
     if (import.meta.hot) {
       import.meta.hot.data.artifacts = this.artifacts;
@@ -60,6 +78,15 @@ export class WorkbenchStore {
     return this.#previewsStore.previews;
   }
 
+  get previewConsole() {
+    return this.#previewConsoleStore.entries;
+  }
+
+  // entries of the preview console that are sent to the chat
+  get previewErrors() {
+    return this.#previewErrors;
+  }
+
   get files() {
     return this.#filesStore.files;
   }
@@ -224,12 +251,38 @@ export class WorkbenchStore {
     return this.#filesStore.getFileModifications();
   }
 
+  getFilesSnapshot() {
+    return this.#filesStore.getSnapshot();
+  }
+
+  /**
+   * Relative paths of the files that most likely relate to the message, see `selectRelevantFiles`.
+   */
+  getRelevantFiles(message: string, exclude: string[] = []) {
+    return selectRelevantFiles(this.#filesStore.fileIndex, message, exclude);
+  }
+
   resetAllFileModifications() {
     this.#filesStore.resetFileModifications();
   }
 
-  abortAllActions() {
-    // TODO: what do we wanna do and how do we wanna recover from this?
+  /**
+   * Stops the actions of all artifacts, e.g. when the user stops the response.
+   */
+  async abortAllActions() {
+    const artifacts = Object.values(this.artifacts.get());
+    const abortedFiles = (await Promise.all(artifacts.map(({ runner }) => runner.abortAll()))).flat();
+    const wc = await webcontainer;
+
+    // the editor shows the content that was streamed so far, it is reset to the content on disk
+    for (const filePath of abortedFiles) {
+      const fullPath = nodePath.join(wc.workdir, filePath);
+      const file = this.#filesStore.getFile(fullPath);
+
+      if (file && !this.unsavedFiles.get().has(fullPath)) {
+        this.#editorStore.updateFile(fullPath, file.content);
+      }
+    }
   }
 
   addArtifact({ messageId, title, id }: ArtifactCallbackData) {
@@ -247,7 +300,17 @@ export class WorkbenchStore {
       id,
       title,
       closed: false,
-      runner: new ActionRunner(webcontainer, () => this.#terminalStore.boltTerminal),
+      runner: new ActionRunner(webcontainer, () => this.#terminalStore.boltTerminal, {
+        onPatchFailed: (failure) => {
+          const failedPatches = this.failedPatches.get().filter(({ filePath }) => filePath !== failure.filePath);
+
+          this.failedPatches.set([...failedPatches, failure]);
+        },
+        onCommandFailed: (failure) => this.commandFailure.set(failure),
+        getCommandDecision: (actionId) => getCommandDecision(messageId, actionId),
+        evaluateCommand: (command) => evaluateCommand(command, commandPolicyStore.get()),
+        onCommandDecision: (actionId, decision) => setCommandDecision(messageId, actionId, decision),
+      }),
     });
   }
 
@@ -302,11 +365,71 @@ export class WorkbenchStore {
         this.resetCurrentDocument();
         await artifact.runner.runAction(data);
       }
+    } else if (data.action.type === 'patch') {
+      // patches are applied once they are complete, the file is only selected to show the change
+      await artifact.runner.runAction(data);
+
+      const wc = await webcontainer;
+
+      this.setSelectedFile(nodePath.join(wc.workdir, data.action.filePath));
+      this.currentView.set('code');
+    } else if (data.action.type === 'delete' || data.action.type === 'move') {
+      await artifact.runner.runAction(data);
+
+      const wc = await webcontainer;
+      const path = nodePath.join(wc.workdir, data.action.filePath);
+      const selectedFile = this.selectedFile.get();
+
+      // the editor would otherwise keep showing a file that no longer exists
+      if (selectedFile === path || selectedFile?.startsWith(`${path}/`)) {
+        this.setSelectedFile(
+          data.action.type === 'move'
+            ? nodePath.join(wc.workdir, data.action.newPath, selectedFile.slice(path.length))
+            : undefined,
+        );
+      }
+
+      const unsavedFiles = [...this.unsavedFiles.get()].filter(
+        (filePath) => filePath !== path && !filePath.startsWith(`${path}/`),
+      );
+
+      this.unsavedFiles.set(new Set(unsavedFiles));
     } else {
       await artifact.runner.runAction(data);
     }
   }
 
+  approveCommand(messageId: string, actionId: string, command?: string) {
+    this.#getArtifact(messageId)?.runner.approveCommand(actionId, command);
+  }
+
+  skipCommand(messageId: string, actionId: string) {
+    this.#getArtifact(messageId)?.runner.skipCommand(actionId);
+  }
+
+  requestFix(failure: CommandFailure) {
+    this.sendToChat(getFixPrompt(failure, this.files.get()));
+  }
+
+  sendToChat(message: string) {
+    this.chatRequest.set(message);
+  }
+
+  sendPreviewErrorsToChat() {
+    const errors = this.previewErrors.get();
+
+    if (errors.length === 0) {
+      return;
+    }
+
+    this.sendToChat(getPreviewErrorsPrompt(errors, this.files.get()));
+    this.clearPreviewConsole();
+  }
+
+  clearPreviewConsole() {
+    this.#previewConsoleStore.clear();
+  }
+
   #getArtifact(id: string) {
     const artifacts = this.artifacts.get();
     return artifacts[id];
@@ -1,5 +1,6 @@
 import { WebContainer } from '@webcontainer/api';
 import { WORK_DIR_NAME } from '~/utils/constants';
+import { previewBridgeScript } from './preview-bridge';
 
 interface WebContainerContext {
   loaded: boolean;
@@ -22,10 +23,15 @@ if (!import.meta.env.SSR) {
     import.meta.hot?.data.webcontainer ??
     Promise.resolve()
       .then(() => {
-        return WebContainer.boot({ workdirName: WORK_DIR_NAME });
+        // errors of the previews are shown in the console of the workbench
+        return WebContainer.boot({ workdirName: WORK_DIR_NAME, forwardPreviewErrors: true });
       })
-      .then((webcontainer) => {
+      .then(async (webcontainer) => {
+        // console logs and failed requests of the previews are posted by the bridge
+        await webcontainer.setPreviewScript(previewBridgeScript);
+
         webcontainerContext.loaded = true;
+
         return webcontainer;
       });
 
@@ -0,0 +1,100 @@
+export const PREVIEW_BRIDGE_MESSAGE_TYPE = 'bolt-preview-console';
+
+/**
+ * Injected into every preview next to the error forwarding of the WebContainer. It posts console logs and
+ * failed requests to the workbench, which only sees uncaught errors and `console.error` calls otherwise.
+ *
+ * It runs in the page of the preview as is, so it is plain JavaScript.
+ */
+export const previewBridgeScript = `(() => {
+  const post = (kind, message, stack) => {
+    try {
+      window.parent.postMessage(
+        { type: '${PREVIEW_BRIDGE_MESSAGE_TYPE}', kind, message, stack, pathname: location.pathname },
+        '*',
+      );
+    } catch {
+      // the workbench is gone
+    }
+  };
+
+  const format = (args) =>
+    args
+      .map((arg) => {
+        if (typeof arg === 'string') {
+          return arg;
+        }
+
+        if (arg instanceof Error) {
+          return arg.stack || String(arg);
+        }
+
+        try {
+          return JSON.stringify(arg) ?? String(arg);
+        } catch {
+          return String(arg);
+        }
+      })
+      .join(' ');
+
+  for (const kind of ['log', 'info', 'warn']) {
+    const original = console[kind];
+
+    console[kind] = (...args) => {
+      post(kind, format(args));
+      original.apply(console, args);
+    };
+  }
+
+  const originalFetch = window.fetch;
+
+  window.fetch = async (...args) => {
+    const [input, init] = args;
+    const method = ((init && init.method) || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const url = input instanceof Request ? input.url : String(input);
+
+    try {
+      const response = await originalFetch.apply(window, args);
+
+      if (!response.ok) {
+        post('network', \`\${method} \${url} responded with \${response.status} \${response.statusText}\`.trim());
+      }
+
+      return response;
+    } catch (error) {
+      // requests the page cancelled on purpose
+      if (!(error && error.name === 'AbortError')) {
+        post('network', \`\${method} \${url} failed: \${error && error.message}\`);
+      }
+
+      throw error;
+    }
+  };
+
+  const originalOpen = XMLHttpRequest.prototype.open;
+  const originalSend = XMLHttpRequest.prototype.send;
+
+  XMLHttpRequest.prototype.open = function (method, url, ...rest) {
+    this.__boltRequest = \`\${String(method).toUpperCase()} \${url}\`;
+
+    return originalOpen.call(this, method, url, ...rest);
+  };
+
+  XMLHttpRequest.prototype.send = function (...args) {
+    let aborted = false;
+
+    this.addEventListener('abort', () => {
+      aborted = true;
+    });
+
+    this.addEventListener('loadend', () => {
+      if (this.status === 0 && !aborted) {
+        post('network', \`\${this.__boltRequest} failed\`);
+      } else if (this.status >= 400) {
+        post('network', \`\${this.__boltRequest} responded with \${this.status} \${this.statusText}\`.trim());
+      }
+    });
+
+    return originalSend.apply(this, args);
+  };
+})();`;
@@ -1,51 +1,142 @@
 // @ts-nocheck
 // Preventing TS checks with files presented in the video for a better presentation.
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS } from '~/lib/.server/llm/constants';
+import { StreamData } from 'ai';
+import { MAX_RESPONSE_SEGMENTS } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/.server/llm/prompts';
-import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
+import {
+  streamText,
+  type StreamingOptions,
+  type StreamTextResponse,
+} from '~/lib/.server/llm/stream-text';
 import SwitchableStream from '~/lib/.server/llm/switchable-stream';
+import { getUserApiKeys, readApiKeyVault } from '~/lib/.server/llm/api-key-vault';
+import { discoverModels } from '~/lib/.server/llm/model-discovery';
+import { errorResponse, getStreamErrorMessage, toChatError } from '~/lib/.server/llm/errors';
+import { chatRequestSchema, parseRequestBody } from '~/lib/.server/llm/requests';
+import { normalizeRules } from '~/lib/.server/llm/rules';
+import type { ModelAnnotation, RulesAnnotation, UsageAnnotation } from '~/types/annotations';
+import { getModelList } from '~/utils/constants';
+import type { ModelInfo } from '~/utils/types';
+import { addSegmentUsage, calculateCost, EMPTY_TURN_USAGE } from '~/utils/usage';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
 }
 
-function parseCookies(cookieHeader) {
-  const cookies = {};
+/**
+ * Tells the client which model answered the current segment, so a failover is visible in the UI.
+ */
+function getModelAnnotation({ provider, model, failedAttempts }: StreamTextResponse): ModelAnnotation {
+  const [requested] = failedAttempts;
 
-  // Split the cookie string by semicolons and spaces
-  const items = cookieHeader.split(";").map(cookie => cookie.trim());
+  const annotation: ModelAnnotation = { type: 'model', provider, model };
 
-  items.forEach(item => {
-    const [name, ...rest] = item.split("=");
-    if (name && rest) {
-      // Decode the name and value, and join value parts in case it contains '='
-      const decodedName = decodeURIComponent(name.trim());
-      const decodedValue = decodeURIComponent(rest.join("=").trim());
-      cookies[decodedName] = decodedValue;
-    }
-  });
+  if (requested) {
+    annotation.fallbackFrom = { provider: requested.provider, model: requested.model, reason: requested.reason };
+  }
+
+  return annotation;
+}
 
-  return cookies;
+function getModelPricing(models: ModelInfo[], provider: string, model: string) {
+  return models.find((m) => m.provider === provider && m.name === model)?.pricing;
 }
 
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages } = await request.json<{
-    messages: Messages
-  }>();
+  const startTime = Date.now();
 
-  const cookieHeader = request.headers.get("Cookie");
+  // the requested model, used to describe errors that happen before a model answered
+  let selection: { provider?: string; model?: string } = {};
 
-  // Parse the cookie's value (returns an object or null if no cookie exists)
-  const apiKeys = JSON.parse(parseCookies(cookieHeader).apiKeys || "{}");
+  try {
+    const {
+      messages,
+      provider,
+      model,
+      generationSettings,
+      maxHistoryMessages,
+      toolCalling,
+      files,
+      rules: requestRules,
+    } = await parseRequestBody(request, chatRequestSchema);
 
-  const stream = new SwitchableStream();
+    selection = { provider, model };
+
+    const rules = normalizeRules(requestRules);
+
+    const apiKeys = getUserApiKeys(await readApiKeyVault(request, context.cloudflare.env));
+
+    // the dynamic models available with the user's keys, usually answered from the cache
+    const models = getModelList((await discoverModels(context.cloudflare.env, { userApiKeys: apiKeys })).models);
+
+    const stream = new SwitchableStream();
+
+    // usage of all segments of this turn
+    let usage = EMPTY_TURN_USAGE;
+
+    let segment: { response: StreamTextResponse; data: StreamData } | undefined;
+
+    const startSegment = (response: StreamTextResponse) => {
+      const data = new StreamData();
+
+      data.appendMessageAnnotation(getModelAnnotation(response));
+
+      // the rules are the same for every segment, so they are only sent once
+      if (stream.switches === 0 && (rules.project || rules.global)) {
+        const rulesAnnotation: RulesAnnotation = { type: 'rules', ...rules };
+
+        data.appendMessageAnnotation(rulesAnnotation);
+      }
+
+      segment = { response, data };
+
+      return stream.switchSource(
+        response.result.toDataStream({
+          data,
+          getErrorMessage: (error) => getStreamErrorMessage(error, response),
+        }),
+      );
+    };
 
-  try {
     const options: StreamingOptions = {
       toolChoice: 'none',
+      provider,
+      model,
+      generationSettings,
+      maxHistoryMessages,
+      toolCalling: toolCalling === true,
+      files,
+      rules,
       apiKeys,
-      onFinish: async ({ text: content, finishReason }) => {
+      models,
+      onFinish: async ({ text: content, finishReason, usage: segmentUsage }) => {
+        const { response, data } = segment;
+
+        // some providers (e.g. Ollama) don't report usage
+        const promptTokens = Number.isFinite(segmentUsage?.promptTokens) ? segmentUsage.promptTokens : 0;
+        const completionTokens = Number.isFinite(segmentUsage?.completionTokens) ? segmentUsage.completionTokens : 0;
+        const segmentCost = calculateCost(getModelPricing(models, response.provider, response.model), {
+          promptTokens,
+          completionTokens,
+        });
+
+        usage = addSegmentUsage(usage, { promptTokens, completionTokens, cost: segmentCost });
+
+        if (finishReason !== 'length' || stream.switches >= MAX_RESPONSE_SEGMENTS) {
+          const annotation: UsageAnnotation = {
+            type: 'usage',
+            provider: response.provider,
+            model: response.model,
+            ...usage,
+            latencyMs: Date.now() - startTime,
+          };
+
+          data.appendMessageAnnotation(annotation);
+        }
+
+        data.close();
+
         if (finishReason !== 'length') {
           return stream.close();
         }
@@ -56,20 +147,16 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
         const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
 
-        console.log(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
+        console.log(`Reached max token limit: Continuing message (${switchesLeft} switches left)`);
 
         messages.push({ role: 'assistant', content });
         messages.push({ role: 'user', content: CONTINUE_PROMPT });
 
-        const result = await streamText(messages, context.cloudflare.env, options);
-
-        return stream.switchSource(result.toAIStream());
+        return startSegment(await streamText(messages, context.cloudflare.env, options, apiKeys));
       },
     };
 
-    const result = await streamText(messages, context.cloudflare.env, options, apiKeys);
-
-    stream.switchSource(result.toAIStream());
+    await startSegment(await streamText(messages, context.cloudflare.env, options, apiKeys));
 
     return new Response(stream.readable, {
       status: 200,
@@ -80,16 +167,6 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
   } catch (error) {
     console.log(error);
 
-    if (error.message?.includes('API key')) {
-      throw new Response('Invalid or missing API key', {
-        status: 401,
-        statusText: 'Unauthorized'
-      });
-    }
-
-    throw new Response(null, {
-      status: 500,
-      statusText: 'Internal Server Error',
-    });
+    return errorResponse(toChatError(error, selection));
   }
 }
@@ -1,8 +1,11 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { StreamingTextResponse, parseStreamPart } from 'ai';
+import { getUserApiKeys, readApiKeyVault } from '~/lib/.server/llm/api-key-vault';
+import { errorResponse, toChatError } from '~/lib/.server/llm/errors';
+import { getEnhancerPrompt } from '~/lib/.server/llm/prompts';
+import { enhancerRequestSchema, parseRequestBody } from '~/lib/.server/llm/requests';
 import { streamText } from '~/lib/.server/llm/stream-text';
-import { stripIndents } from '~/utils/stripIndent';
-import type { StreamingOptions } from '~/lib/.server/llm/stream-text';
+import { resolveEnhancerInstructions } from '~/utils/enhancer';
 
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
@@ -12,46 +15,29 @@ export async function action(args: ActionFunctionArgs) {
 }
 
 async function enhancerAction({ context, request }: ActionFunctionArgs) {
-  const { message, model, provider, apiKeys } = await request.json<{ 
-    message: string;
-    model: string;
-    provider: string;
-    apiKeys?: Record<string, string>;
-  }>();
+  let selection: { provider?: string; model?: string } = {};
 
-  // Validate 'model' and 'provider' fields
-  if (!model || typeof model !== 'string') {
-    throw new Response('Invalid or missing model', {
-      status: 400,
-      statusText: 'Bad Request'
-    });
-  }
+  try {
+    const { message, model, provider, preset, instructions, project } = await parseRequestBody(
+      request,
+      enhancerRequestSchema,
+    );
 
-  if (!provider || typeof provider !== 'string') {
-    throw new Response('Invalid or missing provider', {
-      status: 400,
-      statusText: 'Bad Request'
-    });
-  }
+    selection = { provider, model };
 
-  try {
-    const result = await streamText(
+    const apiKeys = getUserApiKeys(await readApiKeyVault(request, context.cloudflare.env));
+
+    const presetInstructions = resolveEnhancerInstructions(preset, instructions);
+
+    const { result } = await streamText(
       [
         {
           role: 'user',
-          content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n` + stripIndents`
-          I want you to improve the user prompt that is wrapped in \`<original_prompt>\` tags.
-
-          IMPORTANT: Only respond with the improved prompt and nothing else!
-
-          <original_prompt>
-            ${message}
-          </original_prompt>
-        `,
+          content: getEnhancerPrompt(message, presetInstructions, project),
         },
       ],
       context.cloudflare.env,
-      undefined,
+      { provider, model },
       apiKeys
     );
 
@@ -80,16 +66,6 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
   } catch (error: unknown) {
     console.log(error);
 
-    if (error instanceof Error && error.message?.includes('API key')) {
-      throw new Response('Invalid or missing API key', {
-        status: 401,
-        statusText: 'Unauthorized'
-      });
-    }
-
-    throw new Response(null, {
-      status: 500,
-      statusText: 'Internal Server Error',
-    });
+    return errorResponse(toChatError(error, selection));
   }
 }
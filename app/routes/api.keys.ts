@@ -0,0 +1,55 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getApiKeyStatus, readApiKeyVault, writeApiKeyVault, type ApiKeyVault } from '~/lib/.server/llm/api-key-vault';
+import { ChatError, errorResponse, toChatError } from '~/lib/.server/llm/errors';
+import { parseRequestBody, revokeApiKeyRequestSchema, storeApiKeyRequestSchema } from '~/lib/.server/llm/requests';
+import { getProvider } from '~/lib/providers';
+
+export async function loader({ context, request }: LoaderFunctionArgs) {
+  const vault = await readApiKeyVault(request, context.cloudflare.env);
+
+  return json({ keys: getApiKeyStatus(vault) });
+}
+
+/**
+ * `PUT` stores or rotates the key of a provider, `DELETE` revokes it. Both respond with the status of all keys.
+ */
+export async function action({ context, request }: ActionFunctionArgs) {
+  const { env } = context.cloudflare;
+
+  try {
+    const vault = await readApiKeyVault(request, env);
+
+    let updatedVault: ApiKeyVault;
+
+    switch (request.method) {
+      case 'PUT': {
+        const { provider, key } = await parseRequestBody(request, storeApiKeyRequestSchema);
+
+        if (!getProvider(provider)?.envKeys.apiKey) {
+          throw new ChatError('bad_request', `${provider} doesn't take an API key`, { provider });
+        }
+
+        updatedVault = { ...vault, [provider]: { key, updatedAt: new Date().toISOString() } };
+        break;
+      }
+      case 'DELETE': {
+        const { provider } = await parseRequestBody(request, revokeApiKeyRequestSchema);
+
+        const { [provider]: _revoked, ...rest } = vault;
+
+        updatedVault = rest;
+        break;
+      }
+      default: {
+        return new Response(null, { status: 405, headers: { Allow: 'GET, PUT, DELETE' } });
+      }
+    }
+
+    return json(
+      { keys: getApiKeyStatus(updatedVault) },
+      { headers: { 'Set-Cookie': await writeApiKeyVault(updatedVault, env) } },
+    );
+  } catch (error) {
+    return errorResponse(toChatError(error));
+  }
+}
@@ -1,6 +1,11 @@
-import { json } from '@remix-run/cloudflare';
-import { MODEL_LIST } from '~/utils/constants';
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getUserApiKeys, readApiKeyVault } from '~/lib/.server/llm/api-key-vault';
+import { discoverModels } from '~/lib/.server/llm/model-discovery';
 
-export async function loader() {
-  return json(MODEL_LIST);
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const env = context.cloudflare.env;
+  const userApiKeys = getUserApiKeys(await readApiKeyVault(request, env));
+  const force = new URL(request.url).searchParams.has('refresh');
+
+  return json(await discoverModels(env, { userApiKeys, force }));
 }
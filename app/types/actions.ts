@@ -1,4 +1,4 @@
-export type ActionType = 'file' | 'shell';
+export type ActionType = 'file' | 'patch' | 'delete' | 'move' | 'mkdir' | 'shell';
 
 export interface BaseAction {
   content: string;
@@ -9,6 +9,33 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+/**
+ * Changes part of an existing file, the content is a unified diff or search/replace blocks.
+ */
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+/**
+ * Removes a file or a folder with all of its content.
+ */
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+export interface MoveAction extends BaseAction {
+  type: 'move';
+  filePath: string;
+  newPath: string;
+}
+
+export interface MkdirAction extends BaseAction {
+  type: 'mkdir';
+  dirPath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -17,6 +44,21 @@ export interface StartAction extends BaseAction {
   type: 'start';
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction;
+export type BoltAction = FileAction | PatchAction | DeleteAction | MoveAction | MkdirAction | ShellAction | StartAction;
 
 export type BoltActionData = BoltAction | BaseAction;
+
+/**
+ * A shell or start action that exited with an error, the output is sent to the model to fix it.
+ */
+export interface CommandFailure {
+  type: 'shell' | 'start';
+  command: string;
+  exitCode: number;
+  output: string;
+}
+
+export interface PatchFailure {
+  filePath: string;
+  error: string;
+}
@@ -0,0 +1,81 @@
+import type { ChatRules } from './rules';
+
+/**
+ * Metadata the client attaches to user messages, so every turn in the history records how it was requested.
+ */
+export interface RequestAnnotation {
+  type: 'request';
+  provider: string;
+  model: string;
+}
+
+/**
+ * Metadata the server attaches to assistant messages through stream annotations.
+ */
+export interface ModelAnnotation {
+  type: 'model';
+  provider: string;
+  model: string;
+
+  /**
+   * Set when the requested model failed and a model from the fallback chain answered instead.
+   */
+  fallbackFrom?: {
+    provider: string;
+    model: string;
+    reason: string;
+  };
+}
+
+/**
+ * Token usage of a whole turn, summed over all continuation segments.
+ */
+export interface UsageAnnotation {
+  type: 'usage';
+
+  /**
+   * The model that answered the last segment.
+   */
+  provider: string;
+  model: string;
+
+  promptTokens: number;
+  completionTokens: number;
+  segments: number;
+
+  /**
+   * Time from receiving the request until the last segment finished.
+   */
+  latencyMs: number;
+
+  /**
+   * Cost in USD, only set if the pricing of every model that answered is known.
+   */
+  cost?: number;
+}
+
+/**
+ * The rules that were added to the system prompt for this turn.
+ */
+export interface RulesAnnotation extends ChatRules {
+  type: 'rules';
+}
+
+/**
+ * The responses of the other models if the user compared several models, kept with the response they picked.
+ */
+export interface AlternativesAnnotation {
+  type: 'alternatives';
+  responses: Array<{
+    provider: string;
+    model: string;
+    content: string;
+  }>;
+}
+
+export type MessageAnnotation =
+  | RequestAnnotation
+  | ModelAnnotation
+  | UsageAnnotation
+  | RulesAnnotation
+  | AlternativesAnnotation;
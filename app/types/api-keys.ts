@@ -0,0 +1,7 @@
+/**
+ * What the client may know about a key stored in the vault. The key itself never leaves the server.
+ */
+export interface ApiKeyStatus {
+  provider: string;
+  updatedAt: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * How shell and start commands of the model are run: right away, after the user approved each of them, or
+ * depending on the allow and deny lists.
+ */
+export type CommandPolicyMode = 'auto' | 'ask' | 'policy';
+
+export interface CommandPolicy {
+  mode: CommandPolicyMode;
+
+  /**
+   * Patterns of commands that run without asking in the `policy` mode, `*` matches any text.
+   */
+  allow: string[];
+
+  /**
+   * Patterns of commands that never run in the `policy` mode.
+   */
+  deny: string[];
+}
+
+export type CommandVerdict = 'allow' | 'deny' | 'ask';
+
+/**
+ * What the user decided for a command, it is stored with the chat so the command isn't asked for again.
+ */
+export interface CommandDecision {
+  approved: boolean;
+
+  // the command as the user edited it before approving it
+  command?: string;
+}
@@ -0,0 +1,15 @@
+import type { JSONValue } from 'ai';
+import type { ChatErrorInfo } from './errors';
+
+export interface CompareCandidate {
+  provider: string;
+  model: string;
+}
+
+export interface CompareResponse extends CompareCandidate {
+  id: string;
+  content: string;
+  status: 'streaming' | 'done' | 'error';
+  annotations: JSONValue[];
+  error?: ChatErrorInfo;
+}
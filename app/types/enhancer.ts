@@ -0,0 +1,20 @@
+export interface EnhancerPreset {
+  id: string;
+  name: string;
+
+  /**
+   * Tells the model how to rewrite the prompt, e.g. as a feature spec or a bug report.
+   */
+  instructions: string;
+}
+
+/**
+ * What the enhancer gets to know about the current project, so the enhanced prompt refers to real files.
+ */
+export interface EnhancerProjectContext {
+  /**
+   * Paths relative to the project root.
+   */
+  files: string[];
+  packageJson?: string;
+}
@@ -0,0 +1,28 @@
+export type ChatErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'context_overflow'
+  | 'model_not_found'
+  | 'provider_unreachable'
+  | 'bad_request'
+  | 'unknown';
+
+/**
+ * JSON body of failed `/api/chat` and `/api/enhancer` requests. The same object is sent as the message of
+ * error parts if a request fails after the stream started.
+ */
+export interface ChatErrorBody {
+  error: {
+    code: ChatErrorCode;
+    message: string;
+    provider?: string;
+    model?: string;
+
+    /**
+     * Seconds until the provider accepts requests again, only set for `rate_limit` errors.
+     */
+    retryAfter?: number;
+  };
+}
+
+export type ChatErrorInfo = ChatErrorBody['error'];
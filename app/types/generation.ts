@@ -0,0 +1,18 @@
+/**
+ * Sampling options the user can set per chat. Unset values fall back to the defaults of the model.
+ */
+export interface GenerationSettings {
+  temperature?: number;
+
+  /**
+   * Capped at the output limit of the model that answers.
+   */
+  maxTokens?: number;
+
+  topP?: number;
+
+  /**
+   * Makes responses reproducible on providers that support it.
+   */
+  seed?: number;
+}
@@ -1,10 +1,40 @@
 import type { ModelInfo } from '~/utils/types';
 
+export interface DynamicModelsOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
 export type ProviderInfo = {
-  staticModels: ModelInfo[],
-  name: string,
-  getDynamicModels?: () => Promise<ModelInfo[]>,
-  getApiKeyLink?: string,
-  labelForGetApiKey?: string,
-  icon?:string,
+  staticModels: ModelInfo[];
+  name: string;
+
+  /**
+   * Lists the models the provider currently offers. Runs on the server and throws if the provider can't be reached.
+   */
+  getDynamicModels?: (options: DynamicModelsOptions) => Promise<ModelInfo[]>;
+  getApiKeyLink?: string;
+  labelForGetApiKey?: string;
+  icon?: string;
 };
+
+/**
+ * Whether a provider can currently be used, reported by `/api/models`.
+ */
+export interface ProviderStatus {
+  name: string;
+
+  /**
+   * Whether the API key and base URL the provider needs are set.
+   */
+  configured: boolean;
+
+  /**
+   * Only known for providers with a dynamic model list, which we have to request anyway.
+   */
+  reachable?: boolean;
+  error?: string;
+  latencyMs?: number;
+  checkedAt: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Instructions the user wants bolt to follow in addition to the system prompt.
+ */
+export interface ChatRules {
+  /**
+   * Content of the `.boltrules` file in the project.
+   */
+  project?: string;
+
+  /**
+   * Rules the user configured for all projects.
+   */
+  global?: string;
+}
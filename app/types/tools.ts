@@ -0,0 +1,29 @@
+/**
+ * Tools the model can call instead of emitting `<boltArtifact>` XML when tool calling is enabled.
+ */
+export interface BoltToolArgs {
+  write_file: { path: string; content: string };
+  run_shell: { command: string };
+  start_server: { command: string };
+}
+
+export type BoltToolName = keyof BoltToolArgs;
+
+/**
+ * Read-only tools that let the model inspect the project before changing it.
+ */
+export interface FileToolArgs {
+  list_files: { path?: string };
+  read_file: { path: string };
+  grep: { pattern: string; path?: string };
+}
+
+export type FileToolName = keyof FileToolArgs;
+
+export const FILE_TOOL_NAMES: FileToolName[] = ['list_files', 'read_file', 'grep'];
+
+/**
+ * Text files of the project keyed by their path relative to the working directory, sent along
+ * with chat requests so the file tools can be answered on the server.
+ */
+export type FileSnapshot = Record<string, string>;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { cleanTerminalOutput, getFilesInOutput, getFixPrompt, MAX_FAILURE_OUTPUT_LENGTH } from './action-failures';
+import type { FileMap } from '~/lib/stores/files';
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/App.tsx': { type: 'file', content: 'export default App;', isBinary: false },
+  '/home/project/App.tsx': { type: 'file', content: 'export default App;', isBinary: false },
+  '/home/project/package.json': { type: 'file', content: '{}', isBinary: false },
+};
+
+describe('cleanTerminalOutput', () => {
+  it('should remove escape sequences and overwritten lines', () => {
+    const output = '\x1b]654;prompt\x07\x1b[1m\x1b[31merror\x1b[39m\x1b[22m: build failed\r\n|\r/\r-\rdone\n';
+
+    expect(cleanTerminalOutput(output)).toBe('error: build failed\ndone');
+  });
+
+  it('should keep the end of long output', () => {
+    const output = `${'a'.repeat(MAX_FAILURE_OUTPUT_LENGTH)}\nerror`;
+
+    expect(cleanTerminalOutput(output)).toMatch(/^\.\.\.a+\nerror$/);
+  });
+});
+
+describe('getFixPrompt', () => {
+  it('should include the output and mention the files that appear in it', () => {
+    const prompt = getFixPrompt(
+      {
+        type: 'shell',
+        command: 'npm run build',
+        exitCode: 1,
+        output: "/home/project/src/App.tsx(3,7): error TS2322: Type 'number' is not assignable",
+      },
+      files,
+    );
+
+    expect(prompt).toBe(
+      [
+        'The command `npm run build` failed with exit code 1:',
+        "```\n/home/project/src/App.tsx(3,7): error TS2322: Type 'number' is not assignable\n```",
+        'Related files: @src/App.tsx',
+        'Please fix the error.',
+      ].join('\n\n'),
+    );
+  });
+});
+
+describe('getFilesInOutput', () => {
+  it('should strip a leading `./` but keep paths outside of the project', () => {
+    expect(getFilesInOutput("Module not found: Can't resolve './src/App.tsx' in '/home/project'", files)).toEqual([
+      'src/App.tsx',
+    ]);
+    expect(getFilesInOutput('Could not read ../src/App.tsx', files)).toEqual([]);
+    expect(getFilesInOutput('Could not read lib/./App.tsx', files)).toEqual([]);
+  });
+});
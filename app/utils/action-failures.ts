@@ -0,0 +1,103 @@
+import type { FileMap } from '~/lib/stores/files';
+import type { CommandFailure } from '~/types/actions';
+import { WORK_DIR } from './constants';
+import { toRelativePath } from './file-context';
+
+// end of the output sent to the model, the error is usually printed last
+export const MAX_FAILURE_OUTPUT_LENGTH = 4000;
+
+// fixes that are requested without the user in between, so a model that can't fix the error doesn't loop forever
+export const MAX_AUTO_FIX_ATTEMPTS = 3;
+
+// exit code of commands that were stopped with ctrl+c, e.g. a dev server that is replaced by a new one
+export const INTERRUPTED_EXIT_CODE = 130;
+
+// files of the project that are mentioned with a fix request because they appear in the output
+const MAX_FAILURE_FILES = 5;
+
+// `./` at the start of a path, `../` and `./` in the middle of a path are kept
+const leadingDotSlashRegex = /(^|[\s('"`])\.\//g;
+
+const oscRegex = /\x1b\][^\x07]*(?:\x07|\x1b\\)/g;
+const csiRegex = /\x1b\[[0-?]*[ -/]*[@-~]/g;
+const escapeRegex = /\x1b[@-_]/g;
+
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number,
+    readonly output: string,
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+/**
+ * Removes the escape sequences of the terminal and the lines that were overwritten by spinners or progress
+ * bars, keeping only the end of long output.
+ */
+export function cleanTerminalOutput(output: string) {
+  const lines = output
+    .replace(oscRegex, '')
+    .replace(csiRegex, '')
+    .replace(escapeRegex, '')
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.split('\r').at(-1)!.trimEnd());
+
+  const cleaned = lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (cleaned.length <= MAX_FAILURE_OUTPUT_LENGTH) {
+    return cleaned;
+  }
+
+  return `...${cleaned.slice(-MAX_FAILURE_OUTPUT_LENGTH)}`;
+}
+
+/**
+ * Creates the message that asks the model to fix a failed command. Project files that appear in the output are
+ * mentioned, so their content is sent with the message.
+ */
+export function getFixPrompt(failure: CommandFailure, files: FileMap) {
+  const paths = getFilesInOutput(failure.output, files);
+
+  const action = failure.type === 'start' ? 'Starting the application with' : 'The command';
+
+  return [
+    `${action} \`${failure.command.trim()}\` failed with exit code ${failure.exitCode}:`,
+    `\`\`\`\n${failure.output || 'No output'}\n\`\`\``,
+    paths.length > 0 ? `Related files: ${paths.map((path) => `@${path}`).join(' ')}` : undefined,
+    'Please fix the error.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Project files that appear in the output of a command or in a stack trace.
+ */
+export function getFilesInOutput(output: string, files: FileMap) {
+  // absolute paths and paths starting with `./` appear in stack traces and compiler errors
+  const normalized = output.replaceAll(`${WORK_DIR}/`, '').replace(leadingDotSlashRegex, '$1');
+
+  return Object.entries(files)
+    .filter(([, dirent]) => dirent?.type === 'file' && !dirent.isBinary)
+    .map(([path]) => toRelativePath(path))
+    .filter((path) => mentionsPath(normalized, path))
+    .slice(0, MAX_FAILURE_FILES);
+}
+
+function mentionsPath(output: string, path: string) {
+  for (let index = output.indexOf(path); index !== -1; index = output.indexOf(path, index + 1)) {
+    // `src/App.tsx` shouldn't match `App.tsx`
+    if (index === 0 || !/[\w./-]/.test(output[index - 1])) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,19 @@
+import type { JSONValue, Message } from 'ai';
+import type { MessageAnnotation } from '~/types/annotations';
+
+function isMessageAnnotation(value: JSONValue): value is MessageAnnotation & JSONValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.type === 'string';
+}
+
+/**
+ * Returns the annotations of the given type, a message can carry one annotation per continuation segment.
+ */
+export function getMessageAnnotations<T extends MessageAnnotation['type']>(
+  message: Pick<Message, 'annotations'>,
+  type: T,
+): Array<Extract<MessageAnnotation, { type: T }>> {
+  return (message.annotations ?? []).filter(
+    (annotation): annotation is Extract<MessageAnnotation, { type: T }> & JSONValue =>
+      isMessageAnnotation(annotation) && annotation.type === type,
+  );
+}
@@ -0,0 +1,41 @@
+import type { Attachment, Message } from 'ai';
+
+export const MAX_IMAGE_ATTACHMENTS = 4;
+
+// larger screenshots should be scaled down before attaching them, they are sent with every request of the chat
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+export const IMAGE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// base64 grows the data by a third
+export const MAX_IMAGE_DATA_URL_LENGTH = Math.ceil((MAX_IMAGE_SIZE * 4) / 3) + 100;
+
+export function isImageAttachment({ contentType }: Attachment) {
+  return contentType !== undefined && IMAGE_CONTENT_TYPES.includes(contentType);
+}
+
+export function getImageAttachments(message: Pick<Message, 'experimental_attachments'>) {
+  return message.experimental_attachments?.filter(isImageAttachment) ?? [];
+}
+
+/**
+ * Reads a dropped, pasted or selected image into a data URL attachment that is stored with the chat.
+ */
+export function readImageAttachment(file: File): Promise<Attachment> {
+  if (!IMAGE_CONTENT_TYPES.includes(file.type)) {
+    return Promise.reject(new Error(`${file.name} is not a PNG, JPEG, GIF or WebP image`));
+  }
+
+  if (file.size > MAX_IMAGE_SIZE) {
+    return Promise.reject(new Error(`${file.name} is larger than ${MAX_IMAGE_SIZE / 1024 / 1024} MB`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = () => resolve({ name: file.name, contentType: file.type, url: reader.result as string });
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,97 @@
+import type { CommandPolicy, CommandPolicyMode, CommandVerdict } from '~/types/command-policy';
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  mode: 'auto',
+  allow: [
+    'cd',
+    'ls',
+    'npm install',
+    'npm i',
+    'npm ci',
+    'npm run dev',
+    'npm run build',
+    'npm start',
+    'npm test',
+    'pnpm install',
+    'pnpm run dev',
+    'yarn install',
+    'yarn dev',
+  ],
+  deny: ['rm -rf /', 'rm -rf ~', 'rm -rf ~/', 'sudo', 'curl * | sh', 'curl * | bash', 'wget * | sh', 'wget * | bash'],
+};
+
+export const commandPolicyModeLabels: Record<CommandPolicyMode, string> = {
+  auto: 'Run commands',
+  ask: 'Ask before commands',
+  policy: 'Allow/deny lists',
+};
+
+// commands chained with these operators are checked one by one, quotes aren't taken into account
+const commandSeparatorRegex = /&&|\|\||;|&|\n/;
+
+// text without pipes, redirects, background `&`, subshells or command substitutions
+const plainTextSource = '[^|&<>()`]*';
+
+/**
+ * Decides whether a command runs. In the `policy` mode a command is denied if any part of it matches a deny
+ * pattern, it is allowed if all of its parts match allow patterns, and the user is asked otherwise.
+ */
+export function evaluateCommand(command: string, policy: CommandPolicy): CommandVerdict {
+  if (policy.mode === 'auto') {
+    return 'allow';
+  }
+
+  if (policy.mode === 'ask') {
+    return 'ask';
+  }
+
+  const segments = splitCommand(command);
+
+  if (segments.some((segment) => policy.deny.some((pattern) => matchesCommandPattern(segment, pattern)))) {
+    return 'deny';
+  }
+
+  if (segments.every((segment) => policy.allow.some((pattern) => matchesCommandPattern(segment, pattern, true)))) {
+    return 'allow';
+  }
+
+  return 'ask';
+}
+
+/**
+ * Matches a single command against a pattern, `*` matches any text and the command may have more arguments
+ * than the pattern, e.g. `npm install` matches `npm install react`. With `plain`, wildcards and more
+ * arguments can't contain shell syntax that runs other commands or writes files, it only matches if the
+ * pattern names it, e.g. `npm run build | tee *`.
+ */
+export function matchesCommandPattern(command: string, pattern: string, plain = false) {
+  const anyText = plain ? plainTextSource : '.*';
+
+  const source = normalizeCommand(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(anyText);
+
+  return source !== '' && new RegExp(`^${source}(?: ${anyText})?$`).test(normalizeCommand(command));
+}
+
+/**
+ * Turns the text of a pattern list, one pattern per line, into the patterns.
+ */
+export function parseCommandPatterns(text: string) {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function splitCommand(command: string) {
+  return command.split(commandSeparatorRegex).map(normalizeCommand).filter(Boolean);
+}
+
+function normalizeCommand(command: string) {
+  return command
+    .replace(/\s*\|\s*/g, ' | ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
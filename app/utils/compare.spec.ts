@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { CompareResponse } from '~/types/compare';
+import { createPickedMessage, summarizeArtifacts } from './compare';
+
+function response(id: string, provider: string, content: string): CompareResponse {
+  return { id, provider, model: `${provider.toLowerCase()}-model`, content, status: 'done', annotations: [] };
+}
+
+describe('summarizeArtifacts', () => {
+  it('should list the files and commands of artifacts', () => {
+    const content = [
+      'Here is your app:',
+      '<boltArtifact id="todo-app" title="Todo app">',
+      '<boltAction type="file" filePath="src/App.tsx">export default App;</boltAction>',
+      '<boltAction type="patch" filePath="package.json">@@ -1 +1 @@</boltAction>',
+      '<boltAction type="shell">\nnpm install\n</boltAction>',
+      '<boltAction type="start">npm run dev</boltAction>',
+      '</boltArtifact>',
+      'Enjoy!',
+    ].join('\n');
+
+    expect(summarizeArtifacts(content)).toBe(
+      [
+        'Here is your app:\n',
+        '',
+        '**Todo app**',
+        '',
+        '- `src/App.tsx`',
+        '- `package.json`',
+        '- `npm install`',
+        '- `npm run dev`',
+        '',
+        '',
+        'Enjoy!',
+      ].join('\n'),
+    );
+  });
+
+  it('should summarize artifacts that were cut off', () => {
+    expect(summarizeArtifacts('<boltArtifact id="app"><boltAction type="file" filePath="index.js">con')).toBe(
+      '\n\n**Untitled artifact**\n\n- `index.js`\n\n',
+    );
+  });
+});
+
+describe('createPickedMessage', () => {
+  it('should keep the other responses with content as alternatives', () => {
+    const picked = { ...response('a', 'OpenAI', 'Picked'), annotations: [{ type: 'usage' }] };
+    const responses = [picked, response('b', 'Anthropic', 'Other'), response('c', 'Groq', '')];
+
+    expect(createPickedMessage(picked, responses)).toEqual({
+      id: 'a',
+      role: 'assistant',
+      content: 'Picked',
+      annotations: [
+        { type: 'usage' },
+        { type: 'alternatives', responses: [{ provider: 'Anthropic', model: 'anthropic-model', content: 'Other' }] },
+      ],
+    });
+  });
+
+  it('should not add an annotation without alternatives', () => {
+    const picked = response('a', 'OpenAI', 'Picked');
+
+    expect(createPickedMessage(picked, [picked, response('b', 'Groq', '')]).annotations).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import type { Message } from 'ai';
+import type { AlternativesAnnotation } from '~/types/annotations';
+import type { CompareResponse } from '~/types/compare';
+
+const artifactRegex = /<boltArtifact([^>]*)>([\s\S]*?)(?:<\/boltArtifact>|$)/g;
+const fileActionRegex = /<boltAction[^>]*type="(?:file|patch)"[^>]*filePath="([^"]*)"/g;
+const shellActionRegex = /<boltAction[^>]*type="(?:shell|start)"[^>]*>([\s\S]*?)(?:<\/boltAction>|$)/g;
+
+/**
+ * Replaces artifacts with a list of the files and commands they contain. Responses that weren't picked are
+ * never run, so they can't be rendered with the regular artifact component.
+ */
+export function summarizeArtifacts(content: string) {
+  return content.replace(artifactRegex, (_, attributes: string, body: string) => {
+    const title = /title="([^"]*)"/.exec(attributes)?.[1] || 'Untitled artifact';
+    const files = [...body.matchAll(fileActionRegex)].map(([, filePath]) => `- \`${filePath}\``);
+    const commands = [...body.matchAll(shellActionRegex)].map(([, command]) => `- \`${command.trim()}\``);
+
+    return `\n\n**${title}**\n\n${[...files, ...commands].join('\n')}\n\n`;
+  });
+}
+
+/**
+ * Creates the assistant message for the picked response, the other responses are kept as an annotation.
+ */
+export function createPickedMessage(picked: CompareResponse, responses: CompareResponse[]): Message {
+  const alternatives = {
+    type: 'alternatives',
+    responses: responses
+      .filter((response) => response.id !== picked.id && response.content)
+      .map(({ provider, model, content }) => ({ provider, model, content })),
+  } satisfies AlternativesAnnotation;
+
+  return {
+    id: picked.id,
+    role: 'assistant',
+    content: picked.content,
+    annotations: [...picked.annotations, ...(alternatives.responses.length > 0 ? [alternatives] : [])],
+  };
+}
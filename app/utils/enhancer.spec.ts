@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_ENHANCER_PRESETS, resolveEnhancerInstructions } from './enhancer';
+
+describe('resolveEnhancerInstructions', () => {
+  it('should prefer the instructions of custom presets', () => {
+    expect(resolveEnhancerInstructions('custom-1', '  Write it as a haiku.  ')).toBe('Write it as a haiku.');
+  });
+
+  it('should look up built-in presets and fall back to the default one', () => {
+    const bugReport = BUILT_IN_ENHANCER_PRESETS.find(({ id }) => id === 'bug-report');
+
+    expect(resolveEnhancerInstructions('bug-report', undefined)).toBe(bugReport?.instructions);
+    expect(resolveEnhancerInstructions('custom-1', ' ')).toBe(BUILT_IN_ENHANCER_PRESETS[0].instructions);
+    expect(resolveEnhancerInstructions(undefined, undefined)).toBe(BUILT_IN_ENHANCER_PRESETS[0].instructions);
+  });
+});
@@ -0,0 +1,59 @@
+import type { EnhancerPreset } from '~/types/enhancer';
+import { stripIndents } from './stripIndent';
+
+export const DEFAULT_ENHANCER_PRESET_ID = 'improve';
+
+// longer instructions of custom presets are rejected by the enhancer endpoint
+export const MAX_ENHANCER_INSTRUCTIONS_LENGTH = 2000;
+
+export const BUILT_IN_ENHANCER_PRESETS: EnhancerPreset[] = [
+  {
+    id: DEFAULT_ENHANCER_PRESET_ID,
+    name: 'Improve',
+    instructions: 'Make the prompt clearer and more specific without changing what the user asks for.',
+  },
+  {
+    id: 'feature-spec',
+    name: 'Feature spec',
+    instructions: stripIndents`
+      Turn the prompt into a short feature specification: the goal, the user facing behavior,
+      the acceptance criteria as a list, and anything that is explicitly out of scope.
+    `,
+  },
+  {
+    id: 'bug-report',
+    name: 'Bug report',
+    instructions: stripIndents`
+      Turn the prompt into a bug report: the observed behavior, the expected behavior,
+      steps to reproduce, and where in the code the problem most likely is.
+    `,
+  },
+  {
+    id: 'ui-polish',
+    name: 'UI polish',
+    instructions: stripIndents`
+      Turn the prompt into concrete UI improvements: layout, spacing, typography, colors,
+      responsiveness, accessibility and states like loading, empty and error.
+    `,
+  },
+  {
+    id: 'refactor',
+    name: 'Refactor',
+    instructions: stripIndents`
+      Turn the prompt into a refactoring plan: what to restructure and why, which files are affected,
+      and that the behavior of the app must stay the same.
+    `,
+  },
+];
+
+export function getBuiltInEnhancerPreset(id: string | undefined) {
+  return BUILT_IN_ENHANCER_PRESETS.find((preset) => preset.id === id);
+}
+
+/**
+ * Custom presets send their instructions along, built-in ones are looked up by id. Unknown presets fall back
+ * to the default one.
+ */
+export function resolveEnhancerInstructions(presetId: string | undefined, instructions: string | undefined) {
+  return instructions?.trim() || (getBuiltInEnhancerPreset(presetId) ?? BUILT_IN_ENHANCER_PRESETS[0]).instructions;
+}
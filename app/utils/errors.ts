@@ -0,0 +1,34 @@
+import type { ChatErrorBody, ChatErrorCode, ChatErrorInfo } from '~/types/errors';
+
+const CHAT_ERROR_TITLES: Record<ChatErrorCode, string> = {
+  auth: 'Invalid or missing API key',
+  rate_limit: 'Rate limit reached',
+  context_overflow: 'The conversation is too long for this model',
+  model_not_found: 'Model not found',
+  provider_unreachable: 'Provider unreachable',
+  bad_request: 'Invalid request',
+  unknown: 'Something went wrong',
+};
+
+/**
+ * Restores the error the server sent, either as the body of a failed response or as an error part of the stream.
+ */
+export function parseChatError(error: Error | string): ChatErrorInfo {
+  const message = typeof error === 'string' ? error : error.message;
+
+  try {
+    const body = JSON.parse(message) as Partial<ChatErrorBody>;
+
+    if (body.error && typeof body.error.code === 'string' && body.error.code in CHAT_ERROR_TITLES) {
+      return body.error;
+    }
+  } catch {
+    // not a structured error, e.g. the request never reached the server
+  }
+
+  return { code: 'unknown', message: message || 'No details were returned' };
+}
+
+export function getChatErrorTitle(code: ChatErrorCode) {
+  return CHAT_ERROR_TITLES[code];
+}
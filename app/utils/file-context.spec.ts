@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { extractMentions, fileContextToHTML, getMentionQuery } from './file-context';
+import type { FileMap } from '~/lib/stores/files';
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/App.tsx': { type: 'file', content: 'export default App;', isBinary: false },
+  '/home/project/src/logo.png': { type: 'file', content: '', isBinary: true },
+  '/home/project/package.json': { type: 'file', content: '{}', isBinary: false },
+};
+
+describe('getMentionQuery', () => {
+  it('should return the mention at the cursor', () => {
+    expect(getMentionQuery('Look at @src/Ap', 15)).toEqual({ query: 'src/Ap', start: 8 });
+    expect(getMentionQuery('mail@example.com', 16)).toBeUndefined();
+  });
+});
+
+describe('extractMentions', () => {
+  it('should only return existing files and folders', () => {
+    expect(extractMentions('Fix @src/App.tsx, check @src/ and @missing.ts.', files)).toEqual(['src/App.tsx', 'src']);
+  });
+});
+
+describe('fileContextToHTML', () => {
+  it('should include file contents and folder entries but skip binary files', () => {
+    const html = fileContextToHTML(files, { mentioned: ['src', 'src/logo.png'], pinned: ['package.json'] });
+
+    expect(html).toBe(
+      [
+        '<bolt_file_context>',
+        '<file path="/home/project/package.json" pinned="true">',
+        '{}',
+        '</file>',
+        '<folder path="/home/project/src">',
+        'App.tsx\nlogo.png',
+        '</folder>',
+        '</bolt_file_context>',
+      ].join('\n'),
+    );
+  });
+
+  it('should return undefined without any file', () => {
+    expect(fileContextToHTML(files, { mentioned: ['missing.ts'], pinned: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+import type { FileMap } from '~/lib/stores/files';
+import { FILE_CONTEXT_TAG_NAME, WORK_DIR } from './constants';
+
+// mentioned and pinned files are sent with every message, so large ones are cut off
+export const MAX_FILE_CONTEXT_FILE_LENGTH = 20_000;
+export const MAX_FILE_CONTEXT_FOLDER_ENTRIES = 200;
+
+const MAX_MENTION_SUGGESTIONS = 8;
+
+export const fileContextRegex = new RegExp(
+  `^<${FILE_CONTEXT_TAG_NAME}>[\\s\\S]*?<\\/${FILE_CONTEXT_TAG_NAME}>\\s+`,
+  'g',
+);
+
+const mentionRegex = /(?:^|\s)@([^\s@]+)/g;
+
+export interface MentionQuery {
+  query: string;
+
+  // index of the `@` in the input
+  start: number;
+}
+
+export interface FileContextPaths {
+  mentioned: string[];
+  pinned: string[];
+
+  // selected automatically, see `selectRelevantFiles`
+  retrieved?: string[];
+}
+
+export function toRelativePath(path: string) {
+  return path.startsWith(`${WORK_DIR}/`) ? path.slice(WORK_DIR.length + 1) : path;
+}
+
+function toAbsolutePath(path: string) {
+  return `${WORK_DIR}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Returns the mention the cursor is in, e.g. `src/Ap` for `Look at @src/Ap|`.
+ */
+export function getMentionQuery(input: string, cursor: number): MentionQuery | undefined {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(input.slice(0, cursor));
+
+  if (!match) {
+    return undefined;
+  }
+
+  return { query: match[1], start: cursor - match[1].length - 1 };
+}
+
+/**
+ * Files and folders whose path contains the query, matches of the file name first.
+ */
+export function getMentionSuggestions(files: FileMap, query: string) {
+  const needle = query.toLowerCase();
+
+  const matches = Object.entries(files)
+    .filter(([path, dirent]) => dirent !== undefined && path.startsWith(`${WORK_DIR}/`))
+    .map(([path, dirent]) => ({ path: toRelativePath(path), folder: dirent?.type === 'folder' }))
+    .filter(({ path }) => path.toLowerCase().includes(needle));
+
+  const rank = (path: string) => {
+    const name = path.split('/').at(-1)!.toLowerCase();
+
+    return name.startsWith(needle) ? 0 : name.includes(needle) ? 1 : 2;
+  };
+
+  return matches
+    .sort((a, b) => rank(a.path) - rank(b.path) || a.path.length - b.path.length || a.path.localeCompare(b.path))
+    .slice(0, MAX_MENTION_SUGGESTIONS);
+}
+
+/**
+ * Relative paths of the existing files and folders mentioned in the input. Punctuation after a mention,
+ * like in `see @src/App.tsx.`, is ignored.
+ */
+export function extractMentions(input: string, files: FileMap) {
+  const mentions = new Set<string>();
+
+  for (const [, mention] of input.matchAll(mentionRegex)) {
+    const candidates = [mention, mention.replace(/[.,;:!?)\]]+$/, '')].map((path) => path.replace(/\/+$/, ''));
+    const path = candidates.find((candidate) => files[toAbsolutePath(candidate)] !== undefined);
+
+    if (path) {
+      mentions.add(path);
+    }
+  }
+
+  return [...mentions];
+}
+
+/**
+ * Converts the pinned, mentioned and retrieved files into a `<bolt_file_context>` section with the current content of
+ * files and the entries of folders, e.g.:
+ *
+ * ```html
+ * <bolt_file_context>
+ * <file path="/home/project/src/App.tsx" pinned="true">
+ * ...
+ * </file>
+ * <folder path="/home/project/src/components">
+ * Button.tsx
+ * </folder>
+ * </bolt_file_context>
+ * ```
+ */
+export function fileContextToHTML(files: FileMap, { mentioned, pinned, retrieved = [] }: FileContextPaths) {
+  const result: string[] = [];
+
+  for (const path of new Set([...pinned, ...mentioned, ...retrieved])) {
+    const absolutePath = toAbsolutePath(path);
+    const dirent = files[absolutePath];
+
+    let attributes = `path=${JSON.stringify(absolutePath)}`;
+
+    if (pinned.includes(path)) {
+      attributes += ' pinned="true"';
+    } else if (!mentioned.includes(path)) {
+      attributes += ' retrieved="true"';
+    }
+
+    if (dirent?.type === 'folder') {
+      result.push(`<folder ${attributes}>`, getFolderEntries(files, absolutePath).join('\n'), '</folder>');
+    } else if (dirent?.type === 'file' && !dirent.isBinary) {
+      result.push(`<file ${attributes}>`, truncate(dirent.content), '</file>');
+    }
+  }
+
+  if (result.length === 0) {
+    return undefined;
+  }
+
+  return [`<${FILE_CONTEXT_TAG_NAME}>`, ...result, `</${FILE_CONTEXT_TAG_NAME}>`].join('\n');
+}
+
+function getFolderEntries(files: FileMap, folder: string) {
+  const entries = Object.entries(files)
+    .filter(([path, dirent]) => dirent !== undefined && path.startsWith(`${folder}/`))
+    .map(([path, dirent]) => `${path.slice(folder.length + 1)}${dirent?.type === 'folder' ? '/' : ''}`)
+    .sort();
+
+  if (entries.length > MAX_FILE_CONTEXT_FOLDER_ENTRIES) {
+    const omitted = entries.length - MAX_FILE_CONTEXT_FOLDER_ENTRIES;
+
+    return [...entries.slice(0, MAX_FILE_CONTEXT_FOLDER_ENTRIES), `[${omitted} more entries omitted]`];
+  }
+
+  return entries;
+}
+
+function truncate(content: string) {
+  if (content.length <= MAX_FILE_CONTEXT_FILE_LENGTH) {
+    return content;
+  }
+
+  return `${content.slice(0, MAX_FILE_CONTEXT_FILE_LENGTH)}\n[truncated, ${content.length - MAX_FILE_CONTEXT_FILE_LENGTH} more characters]`;
+}
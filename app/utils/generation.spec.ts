@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { generationSettingsSchema, getDefaultGenerationSettings, getMaxTokens } from './generation';
+
+describe('generationSettingsSchema', () => {
+  it('should accept settings within their bounds', () => {
+    expect(generationSettingsSchema.safeParse({}).success).toBe(true);
+    expect(generationSettingsSchema.safeParse({ temperature: 2, maxTokens: 1, topP: 1, seed: -3 }).success).toBe(true);
+  });
+
+  it('should reject settings out of range', () => {
+    for (const settings of [
+      { temperature: -0.1 },
+      { temperature: 2.1 },
+      { maxTokens: 0 },
+      { maxTokens: 100.5 },
+      { topP: 0 },
+      { topP: 1.1 },
+      { seed: 1.5 },
+      { frequencyPenalty: 1 },
+    ]) {
+      expect(generationSettingsSchema.safeParse(settings).success, JSON.stringify(settings)).toBe(false);
+    }
+  });
+});
+
+describe('getMaxTokens', () => {
+  it('should cap the requested tokens at the limit of the model', () => {
+    expect(getMaxTokens({}, 8192)).toBe(8192);
+    expect(getMaxTokens({ maxTokens: 2000 }, 8192)).toBe(2000);
+    expect(getMaxTokens({ maxTokens: 16_384 }, 4096)).toBe(4096);
+  });
+});
+
+describe('getDefaultGenerationSettings', () => {
+  it('should default to the output limit of the model', () => {
+    expect(getDefaultGenerationSettings('Anthropic', 'claude-3-opus-latest')).toEqual({
+      temperature: 0,
+      maxTokens: 4096,
+      topP: 1,
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import type { GenerationSettings } from '~/types/generation';
+import { getModelInfo } from './models';
+
+export const DEFAULT_TEMPERATURE = 0;
+export const DEFAULT_TOP_P = 1;
+
+export const generationSettingsSchema = z
+  .object({
+    temperature: z.number().min(0).max(2),
+    maxTokens: z.number().int().positive(),
+    topP: z.number().gt(0).max(1),
+    seed: z.number().int(),
+  })
+  .partial()
+  .strict() satisfies z.ZodType<GenerationSettings>;
+
+/**
+ * The output limit the user asked for, capped at the limit of the model that answers.
+ */
+export function getMaxTokens(settings: GenerationSettings, maxOutputTokens: number) {
+  return Math.min(settings.maxTokens ?? maxOutputTokens, maxOutputTokens);
+}
+
+export function getDefaultGenerationSettings(
+  provider: string | undefined,
+  model: string,
+): Required<Omit<GenerationSettings, 'seed'>> {
+  return {
+    temperature: DEFAULT_TEMPERATURE,
+    maxTokens: getModelInfo(provider, model).maxOutputTokens,
+    topP: DEFAULT_TOP_P,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { filterModels, getContextLength, getModelInfo, resolveModelInfo, sortModels } from './models';
+
+describe('getContextLength', () => {
+  it('should prefer model specific lengths over the provider default', () => {
+    expect(getContextLength('OpenAI', 'gpt-4')).toBe(8192);
+    expect(getContextLength('OpenAI', 'gpt-4o-mini')).toBe(128_000);
+    expect(getContextLength('Unknown', 'unknown')).toBe(8192);
+  });
+});
+
+describe('getModelInfo', () => {
+  it('should prefer the definition of the model over the defaults of the provider', () => {
+    expect(getModelInfo('OpenAI', 'gpt-4o')).toMatchObject({ vision: true, toolCalling: true });
+    expect(getModelInfo('OpenAI', 'gpt-3.5-turbo')).toMatchObject({ vision: false, maxOutputTokens: 4096 });
+    expect(getModelInfo('Groq', 'llama-3.2-11b-vision-preview')).toMatchObject({ vision: true });
+    expect(getModelInfo('Unknown', 'unknown')).toMatchObject({ vision: false, contextLength: 8192 });
+  });
+});
+
+describe('filterModels and sortModels', () => {
+  const models = [
+    resolveModelInfo({ name: 'a', label: 'A', provider: 'Test', contextLength: 8000, vision: true }),
+    resolveModelInfo({ name: 'b', label: 'B', provider: 'Test', contextLength: 200_000, toolCalling: true }),
+    resolveModelInfo({
+      name: 'c',
+      label: 'C',
+      provider: 'Test',
+      contextLength: 32_000,
+      pricing: { prompt: 0.000001, completion: 0.000002 },
+    }),
+  ];
+
+  it('should only keep models with the required capabilities', () => {
+    expect(filterModels(models, { vision: true }).map((model) => model.name)).toEqual(['a']);
+    expect(filterModels(models, { minContextLength: 32_000 }).map((model) => model.name)).toEqual(['b', 'c']);
+  });
+
+  it('should sort by context length and price', () => {
+    expect(sortModels(models, 'contextLength').map((model) => model.name)).toEqual(['b', 'c', 'a']);
+    expect(sortModels(models, 'price')[0].name).toBe('c');
+  });
+});
@@ -0,0 +1,177 @@
+import { getProvider } from '~/lib/providers';
+import { OLLAMA_NUM_CTX } from '~/lib/providers/ollama';
+import { MODEL_LIST } from './constants';
+import type { ModelInfo } from './types';
+
+// used for models and providers we don't know anything about
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8000;
+
+export const PROVIDER_CONTEXT_LENGTHS: Record<string, number> = {
+  Anthropic: 200_000,
+  OpenAI: 128_000,
+  Google: 1_000_000,
+  Groq: 8192,
+  OpenRouter: 128_000,
+  Deepseek: 128_000,
+  Mistral: 32_000,
+  xAI: 131_072,
+  Ollama: OLLAMA_NUM_CTX,
+  LMStudio: 8192,
+  OpenAILike: 8192,
+  Replay: 1_000_000,
+};
+
+// models whose context length differs from the default of their provider
+export const MODEL_CONTEXT_LENGTHS: Record<string, number> = {
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16_385,
+  'gemini-1.5-pro-latest': 2_000_000,
+  'llama-3.1-70b-versatile': 32_768,
+  'llama-3.1-8b-instant': 32_768,
+  'open-mistral-nemo': 128_000,
+  'open-codestral-mamba': 256_000,
+  'ministral-8b-latest': 128_000,
+  'mistral-large-latest': 128_000,
+  'codestral-latest': 32_000,
+  'deepseek/deepseek-coder': 128_000,
+  'google/gemini-flash-1.5': 1_000_000,
+  'google/gemini-pro-1.5': 2_000_000,
+  'anthropic/claude-3.5-sonnet': 200_000,
+  'anthropic/claude-3-haiku': 200_000,
+  'qwen/qwen-110b-chat': 32_768,
+  'cohere/command': 4096,
+};
+
+export const PROVIDER_MAX_OUTPUT_TOKENS: Record<string, number> = {
+  Anthropic: 8192,
+  OpenAI: 16_384,
+  Google: 8192,
+};
+
+// models whose output limit differs from the default of their provider
+export const MODEL_MAX_OUTPUT_TOKENS: Record<string, number> = {
+  'claude-3-opus-latest': 4096,
+  'claude-3-sonnet-20240229': 4096,
+  'claude-3-haiku-20240307': 4096,
+  'gpt-4-turbo': 4096,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 4096,
+  'anthropic/claude-3-haiku': 4096,
+};
+
+export type ResolvedModelInfo = ModelInfo &
+  Required<Pick<ModelInfo, 'contextLength' | 'maxOutputTokens' | 'vision' | 'toolCalling'>>;
+
+export interface ModelFilter {
+  vision?: boolean;
+  toolCalling?: boolean;
+  minContextLength?: number;
+}
+
+export type ModelSortKey = 'name' | 'contextLength' | 'maxOutputTokens' | 'price';
+
+export function getContextLength(provider: string | undefined, model: string) {
+  return MODEL_CONTEXT_LENGTHS[model] ?? (provider && PROVIDER_CONTEXT_LENGTHS[provider]) ?? DEFAULT_CONTEXT_LENGTH;
+}
+
+export function getMaxOutputTokens(provider: string | undefined, model: string) {
+  return (
+    MODEL_MAX_OUTPUT_TOKENS[model] ?? (provider && PROVIDER_MAX_OUTPUT_TOKENS[provider]) ?? DEFAULT_MAX_OUTPUT_TOKENS
+  );
+}
+
+/**
+ * Fills in the capabilities the model doesn't define itself from the tables above and the provider.
+ */
+export function resolveModelInfo(model: ModelInfo): ResolvedModelInfo {
+  const capabilities = getProvider(model.provider)?.capabilities;
+
+  return {
+    ...model,
+    contextLength: model.contextLength ?? getContextLength(model.provider, model.name),
+    maxOutputTokens: model.maxOutputTokens ?? getMaxOutputTokens(model.provider, model.name),
+    vision: model.vision ?? capabilities?.vision ?? false,
+    toolCalling: model.toolCalling ?? capabilities?.toolCalling ?? false,
+  };
+}
+
+/**
+ * Looks up a model in `MODEL_LIST` or the given models. Models that aren't listed, e.g. from a fallback chain,
+ * get the defaults of their provider.
+ */
+export function getModelInfo(
+  provider: string | undefined,
+  model: string,
+  models: ModelInfo[] = MODEL_LIST,
+): ResolvedModelInfo {
+  const info = models.find((m) => m.provider === provider && m.name === model);
+
+  return resolveModelInfo(info ?? { name: model, label: model, provider: provider ?? '' });
+}
+
+export function filterModels(models: ResolvedModelInfo[], filter: ModelFilter) {
+  return models.filter((model) => {
+    if (filter.vision && !model.vision) {
+      return false;
+    }
+
+    if (filter.toolCalling && !model.toolCalling) {
+      return false;
+    }
+
+    return model.contextLength >= (filter.minContextLength ?? 0);
+  });
+}
+
+/**
+ * Sorts large context and output limits first and cheap models first. Models without a known price come last.
+ */
+export function sortModels(models: ResolvedModelInfo[], key: ModelSortKey) {
+  return [...models].sort((a, b) => {
+    switch (key) {
+      case 'contextLength':
+      case 'maxOutputTokens': {
+        return b[key] - a[key];
+      }
+      case 'price': {
+        const priceA = getPromptPrice(a);
+        const priceB = getPromptPrice(b);
+
+        // two unknown prices would otherwise compare as `NaN`
+        return priceA === priceB ? 0 : priceA - priceB;
+      }
+      default: {
+        return a.label.localeCompare(b.label);
+      }
+    }
+  });
+}
+
+function getPromptPrice(model: ModelInfo) {
+  return model.pricing?.prompt ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Short summary of the capabilities, shown as the tooltip of a model.
+ */
+export function describeModel(model: ResolvedModelInfo) {
+  const parts = [
+    `${formatTokenCount(model.contextLength)} context`,
+    `${formatTokenCount(model.maxOutputTokens)} output`,
+    model.vision ? 'images' : 'text only',
+    model.toolCalling ? 'tools' : undefined,
+  ];
+
+  if (model.pricing) {
+    parts.push(
+      `$${(model.pricing.prompt * 1_000_000).toFixed(2)} / $${(model.pricing.completion * 1_000_000).toFixed(2)} per 1M tokens`,
+    );
+  }
+
+  return parts.filter(Boolean).join(' · ');
+}
+
+function formatTokenCount(tokens: number) {
+  return tokens >= 1_000_000 ? `${tokens / 1_000_000}M` : `${Math.round(tokens / 1000)}k`;
+}
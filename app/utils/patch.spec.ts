@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, PatchError } from './patch';
+
+const content = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+].join('\n');
+
+describe('applyPatch', () => {
+  it('should apply search/replace blocks', () => {
+    const patch = ['<<<<<<< SEARCH', '  return a - b;', '=======', '  return b - a;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyPatch(content, patch)).toBe(content.replace('a - b', 'b - a'));
+  });
+
+  it('should apply unified diffs with shifted line numbers', () => {
+    const patch = [
+      '--- a/math.js',
+      '+++ b/math.js',
+      '@@ -3,3 +3,3 @@',
+      ' function add(a, b) {',
+      '-  return a + b;',
+      '+  return b + a;',
+    ].join('\n');
+
+    expect(applyPatch(content, patch)).toBe(content.replace('a + b', 'b + a'));
+  });
+
+  it('should change lines that look like file headers within hunks', () => {
+    const sql = ['SELECT 1;', '-- old comment', 'SELECT 2;'].join('\n');
+    const patch = ['@@ -2,1 +2,1 @@', '--- old comment', '+-- new comment'].join('\n');
+
+    expect(applyPatch(sql, patch)).toBe(['SELECT 1;', '-- new comment', 'SELECT 2;'].join('\n'));
+  });
+
+  it('should match lines with different indentation', () => {
+    const patch = ['<<<<<<< SEARCH', 'return a + b;', '=======', '  return a + b + 1;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyPatch(content, patch)).toBe(content.replace('a + b', 'a + b + 1'));
+  });
+
+  it('should report hunks that are not found', () => {
+    const patch = ['<<<<<<< SEARCH', '  return a * b;', '=======', '  return a / b;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyPatch(content, patch)).toThrowError(PatchError);
+    expect(() => applyPatch(content, patch)).toThrowError('Hunk 1 of 1 could not be applied');
+  });
+});
@@ -0,0 +1,211 @@
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+const HUNK_HEADER = /^@@\s*(?:-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s*)?@@/;
+
+// lines of a hunk shown when it can't be applied
+const MAX_PREVIEW_LINES = 3;
+
+/**
+ * Each pass compares lines more loosely, models often get indentation or trailing whitespace wrong.
+ */
+const LINE_NORMALIZERS: Array<(line: string) => string> = [
+  (line) => line,
+  (line) => line.trimEnd(),
+  (line) => line.trim(),
+  (line) => line.trim().replace(/\s+/g, ' '),
+];
+
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+export interface Hunk {
+  oldLines: string[];
+  newLines: string[];
+
+  // zero-based line where the hunk starts according to its unified diff header
+  line?: number;
+}
+
+/**
+ * Parses either search/replace blocks or the hunks of a unified diff:
+ *
+ * ```
+ * <<<<<<< SEARCH
+ * const answer = 41;
+ * =======
+ * const answer = 42;
+ * >>>>>>> REPLACE
+ * ```
+ */
+export function parsePatch(patch: string): Hunk[] {
+  const lines = patch.split('\n');
+  const hunks = lines.some((line) => SEARCH_MARKER.test(line)) ? parseSearchReplace(lines) : parseUnifiedDiff(lines);
+
+  if (hunks.length === 0) {
+    throw new PatchError('The patch contains no search/replace blocks or diff hunks');
+  }
+
+  return hunks;
+}
+
+/**
+ * Applies the patch to the content. Hunks are matched exactly first and then with increasingly relaxed
+ * whitespace, preferring the match that is closest to the line of the hunk header.
+ */
+export function applyPatch(content: string, patch: string) {
+  const hunks = parsePatch(patch);
+  const lines = content.split('\n');
+
+  // lines added or removed by previous hunks shift the line numbers of the following ones
+  let offset = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const expectedLine = hunk.line === undefined ? undefined : hunk.line + offset;
+    const start = findHunk(lines, hunk, expectedLine);
+
+    if (start === -1) {
+      const preview = hunk.oldLines.slice(0, MAX_PREVIEW_LINES).join('\n');
+
+      throw new PatchError(
+        `Hunk ${index + 1} of ${hunks.length} could not be applied, the following lines were not found:\n${preview}`,
+      );
+    }
+
+    lines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length;
+  }
+
+  return lines.join('\n');
+}
+
+function findHunk(lines: string[], { oldLines }: Hunk, expectedLine?: number) {
+  // a hunk without old lines inserts at its line or appends to the file
+  if (oldLines.length === 0) {
+    return Math.min(expectedLine ?? lines.length, lines.length);
+  }
+
+  for (const normalize of LINE_NORMALIZERS) {
+    const needle = oldLines.map(normalize);
+    const matches: number[] = [];
+
+    for (let start = 0; start <= lines.length - needle.length; start++) {
+      if (needle.every((line, i) => normalize(lines[start + i]) === line)) {
+        matches.push(start);
+      }
+    }
+
+    if (matches.length > 0) {
+      const target = expectedLine ?? 0;
+
+      return matches.reduce((best, match) => (Math.abs(match - target) < Math.abs(best - target) ? match : best));
+    }
+  }
+
+  return -1;
+}
+
+function parseSearchReplace(lines: string[]) {
+  const hunks: Hunk[] = [];
+
+  let state: 'outside' | 'search' | 'replace' = 'outside';
+  let hunk: Hunk = { oldLines: [], newLines: [] };
+
+  for (const line of lines) {
+    if (state === 'outside' && SEARCH_MARKER.test(line)) {
+      state = 'search';
+      hunk = { oldLines: [], newLines: [] };
+    } else if (state === 'search' && DIVIDER_MARKER.test(line)) {
+      state = 'replace';
+    } else if (state === 'replace' && REPLACE_MARKER.test(line)) {
+      state = 'outside';
+      hunks.push(hunk);
+    } else if (state === 'search') {
+      hunk.oldLines.push(line);
+    } else if (state === 'replace') {
+      hunk.newLines.push(line);
+    }
+  }
+
+  if (state !== 'outside') {
+    throw new PatchError('The last search/replace block is incomplete');
+  }
+
+  return hunks;
+}
+
+function parseUnifiedDiff(lines: string[]) {
+  const hunks: Hunk[] = [];
+
+  let hunk: Hunk | undefined;
+
+  for (const [index, line] of lines.entries()) {
+    const header = HUNK_HEADER.exec(line);
+
+    if (header) {
+      hunk = { oldLines: [], newLines: [], line: header[1] ? Math.max(Number(header[1]) - 1, 0) : undefined };
+      hunks.push(hunk);
+      continue;
+    }
+
+    // lines before the first hunk, including the file headers
+    if (!hunk || line.startsWith('\\')) {
+      continue;
+    }
+
+    // within hunks `--- ` and `+++ ` can be changed lines that start with `-- ` or `++ `, e.g. SQL comments
+    const fileHeader =
+      (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) ||
+      (line.startsWith('+++ ') && lines[index - 1]?.startsWith('--- '));
+
+    if (fileHeader) {
+      continue;
+    }
+
+    if (line.startsWith('-')) {
+      hunk.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      hunk.newLines.push(line.slice(1));
+    } else {
+      // models regularly drop the leading space of context lines
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+
+      hunk.oldLines.push(context);
+      hunk.newLines.push(context);
+    }
+  }
+
+  return hunks.map(trimBlankContext);
+}
+
+/**
+ * Blank lines between hunks end up as context, unchanged lines at the edges don't affect the result.
+ */
+function trimBlankContext(hunk: Hunk): Hunk {
+  const { oldLines, newLines } = hunk;
+
+  let start = 0;
+  let end = 0;
+
+  while (start < Math.min(oldLines.length, newLines.length) && oldLines[start] === '' && newLines[start] === '') {
+    start++;
+  }
+
+  while (
+    end < Math.min(oldLines.length, newLines.length) - start &&
+    oldLines.at(-1 - end) === '' &&
+    newLines.at(-1 - end) === ''
+  ) {
+    end++;
+  }
+
+  return {
+    oldLines: oldLines.slice(start, oldLines.length - end),
+    newLines: newLines.slice(start, newLines.length - end),
+    line: hunk.line === undefined ? undefined : hunk.line + start,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { formatConsoleArgs, getPreviewErrorsPrompt, getPreviewPort, stripPreviewOrigins } from './preview-console';
+import type { FileMap } from '~/lib/stores/files';
+
+const files: FileMap = {
+  '/home/project/src/App.tsx': { type: 'file', content: 'export default App;', isBinary: false },
+};
+
+describe('formatConsoleArgs', () => {
+  it('should join strings and serialized values', () => {
+    const circular: Record<string, unknown> = {};
+
+    circular.self = circular;
+
+    expect(formatConsoleArgs(['Failed:', { status: 404 }, undefined, circular])).toBe(
+      'Failed: {"status":404} undefined [object Object]',
+    );
+  });
+});
+
+describe('stripPreviewOrigins', () => {
+  it('should turn preview URLs into project paths', () => {
+    expect(
+      stripPreviewOrigins('at App (https://abc--5173.local-credentialless.webcontainer-api.io/src/App.tsx?t=17:3:7)'),
+    ).toBe('at App (src/App.tsx:3:7)');
+  });
+});
+
+describe('getPreviewPort', () => {
+  it('should only accept the origins of previews', () => {
+    expect(getPreviewPort('https://abc-fkdo--5173--d20a0a75.local-credentialless.webcontainer-api.io')).toBe(5173);
+    expect(getPreviewPort('https://abc--3000.local-credentialless.webcontainer-api.io')).toBe(3000);
+    expect(getPreviewPort('https://evil.example.com')).toBeUndefined();
+    expect(getPreviewPort('https://abc--5173.webcontainer-api.io.example.com')).toBeUndefined();
+  });
+});
+
+describe('getPreviewErrorsPrompt', () => {
+  it('should list the errors and mention the files in their stack traces', () => {
+    const prompt = getPreviewErrorsPrompt(
+      [
+        {
+          id: 0,
+          kind: 'exception',
+          message: 'items is undefined',
+          stack: 'TypeError: items is undefined\n    at App (src/App.tsx:3:7)',
+          port: 5173,
+          pathname: '/',
+          timestamp: 0,
+          count: 2,
+        },
+        {
+          id: 1,
+          kind: 'log',
+          message: 'rendered',
+          port: 5173,
+          pathname: '/',
+          timestamp: 0,
+          count: 1,
+        },
+      ],
+      files,
+    );
+
+    expect(prompt).toBe(
+      [
+        'The preview shows the following errors:',
+        '```\nUncaught exception on / (2 times): items is undefined\n    at App (src/App.tsx:3:7)\n```',
+        'Related files: @src/App.tsx',
+        'Please fix them.',
+      ].join('\n\n'),
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import type { FileMap } from '~/lib/stores/files';
+import type { PreviewConsoleEntry, PreviewConsoleEntryKind } from '~/lib/stores/preview-console';
+import { getFilesInOutput } from './action-failures';
+
+// errors sent to the chat at once, the latest ones are the most relevant
+const MAX_SENT_ENTRIES = 10;
+
+// frames of a stack trace sent to the chat, the first ones point to the error
+const MAX_STACK_LINES = 6;
+
+const previewOriginRegex = /https?:\/\/[^/\s]+\.webcontainer(?:-api)?\.io\//g;
+const timestampQueryRegex = /\?t=\d+/g;
+
+// e.g. `https://abc--5173--d20a0a75.local-credentialless.webcontainer-api.io`
+const previewHostRegex = /^https:\/\/[^/]*?--(\d+)(?:--[^./]+)?\.[^/]*webcontainer(?:-api)?\.io$/;
+
+const PREVIEW_ERROR_KINDS: PreviewConsoleEntryKind[] = ['exception', 'rejection', 'console', 'network'];
+
+export const previewConsoleLabels: Record<PreviewConsoleEntryKind, string> = {
+  exception: 'Uncaught exception',
+  rejection: 'Unhandled rejection',
+  console: 'console.error',
+  log: 'console.log',
+  info: 'console.info',
+  warn: 'console.warn',
+  network: 'Failed request',
+};
+
+/**
+ * Errors are sent to the chat, logs and warnings are only shown in the console.
+ */
+export function isPreviewError({ kind }: Pick<PreviewConsoleEntry, 'kind'>) {
+  return PREVIEW_ERROR_KINDS.includes(kind);
+}
+
+/**
+ * Returns the port of a preview from its origin, or `undefined` if the origin isn't a preview.
+ */
+export function getPreviewPort(origin: string) {
+  const match = previewHostRegex.exec(origin);
+
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Formats the arguments of a console call like the browser console, objects that can't be serialized are
+ * shown as their string representation.
+ */
+export function formatConsoleArgs(args: unknown[]) {
+  return args
+    .map((arg) => {
+      if (typeof arg === 'string') {
+        return arg;
+      }
+
+      try {
+        return JSON.stringify(arg) ?? String(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+}
+
+/**
+ * Turns the URLs of the preview in a stack trace into paths of the project, e.g.
+ * `https://abc.webcontainer-api.io/src/App.tsx?t=1:3:7` into `src/App.tsx:3:7`.
+ */
+export function stripPreviewOrigins(stack: string | undefined) {
+  return stack?.replace(previewOriginRegex, '').replace(timestampQueryRegex, '');
+}
+
+/**
+ * Creates the message that asks the model to fix the errors of the preview. Project files that appear in the
+ * errors are mentioned, so their content is sent with the message.
+ */
+export function getPreviewErrorsPrompt(entries: PreviewConsoleEntry[], files: FileMap) {
+  const errors = entries
+    .filter(isPreviewError)
+    .slice(-MAX_SENT_ENTRIES)
+    .map(({ kind, message, stack, pathname, count }) => {
+      const frames = stack
+        ?.split('\n')
+        // the first line of a stack repeats the message
+        .filter((line) => line.trim() && !(message && line.includes(message)))
+        .slice(0, MAX_STACK_LINES);
+
+      return [
+        `${previewConsoleLabels[kind]} on ${pathname}${count > 1 ? ` (${count} times)` : ''}: ${message}`,
+        ...(frames ?? []),
+      ].join('\n');
+    });
+
+  const paths = getFilesInOutput(errors.join('\n'), files);
+
+  return [
+    'The preview shows the following errors:',
+    `\`\`\`\n${errors.join('\n\n')}\n\`\`\``,
+    paths.length > 0 ? `Related files: ${paths.map((path) => `@${path}`).join(' ')}` : undefined,
+    'Please fix them.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -3,6 +3,9 @@ import type { ITerminal } from '~/types/terminal';
 import { withResolvers } from './promises';
 import { atom } from 'nanostores';
 
+// commands that ignore ctrl+c, e.g. a prompt that waits for input, are not waited for any longer than this
+const INTERRUPT_TIMEOUT_MS = 5000;
+
 export async function newShellProcess(webcontainer: WebContainer, terminal: ITerminal) {
   const args: string[] = [];
 
@@ -113,6 +116,30 @@ export class BoltShell {
     return resp
 
   }
+
+  /**
+   * Stops the running command with ctrl+c and waits until the shell is ready for the next one, or until
+   * `INTERRUPT_TIMEOUT_MS` passed.
+   */
+  async interrupt() {
+    const state = this.executionState.get();
+
+    if (!this.terminal || !state?.active) {
+      return;
+    }
+
+    this.terminal.input('\x03');
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<void>((resolve) => {
+      timeoutId = setTimeout(resolve, INTERRUPT_TIMEOUT_MS);
+    });
+
+    await Promise.race([state.executionPrms, timeout]);
+    clearTimeout(timeoutId);
+  }
+
   async newBoltShellProcess(webcontainer: WebContainer, terminal: ITerminal) {
     const args: string[] = [];
 
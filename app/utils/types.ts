@@ -21,17 +21,37 @@ export interface OllamaApiResponse {
   models: OllamaModel[];
 }
 
+/**
+ * Prices in USD per token.
+ */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * A model of a provider. The capabilities are only set where they are known from the static definition or
+ * the metadata of the provider, see `getModelInfo` for the values used otherwise.
+ */
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
-}
+  pricing?: ModelPricing;
 
-export interface ProviderInfo {
-  staticModels: ModelInfo[],
-  name: string,
-  getDynamicModels?: () => Promise<ModelInfo[]>,
-  getApiKeyLink?: string,
-  labelForGetApiKey?: string,
-  icon?:string,
-};
+  /**
+   * The total number of tokens the model can attend to, including the response.
+   */
+  contextLength?: number;
+  maxOutputTokens?: number;
+
+  /**
+   * Whether the model accepts images.
+   */
+  vision?: boolean;
+
+  /**
+   * Whether the model supports native tool calling.
+   */
+  toolCalling?: boolean;
+}
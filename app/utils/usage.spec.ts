@@ -0,0 +1,69 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { addSegmentUsage, calculateCost, EMPTY_TURN_USAGE, summarizeUsage, summarizeUsageByDay } from './usage';
+
+function assistantMessage(usage: { promptTokens: number; completionTokens: number; cost?: number }, createdAt?: Date) {
+  return {
+    createdAt,
+    annotations: [{ type: 'usage', provider: 'OpenAI', model: 'gpt-4o', segments: 1, latencyMs: 100, ...usage }],
+  } as Pick<Message, 'annotations' | 'createdAt'>;
+}
+
+describe('calculateCost', () => {
+  it('should stay undefined without pricing', () => {
+    expect(calculateCost(undefined, { promptTokens: 100, completionTokens: 50 })).toBeUndefined();
+    expect(calculateCost({ prompt: 0.001, completion: 0.002 }, { promptTokens: 100, completionTokens: 50 })).toBe(0.2);
+  });
+});
+
+describe('addSegmentUsage', () => {
+  it('should sum the segments of a turn and keep the cost undefined once a segment is unpriced', () => {
+    let usage = addSegmentUsage(EMPTY_TURN_USAGE, { promptTokens: 100, completionTokens: 50, cost: 0.1 });
+
+    usage = addSegmentUsage(usage, { promptTokens: 200, completionTokens: 25, cost: 0.2 });
+    expect(usage).toEqual({ promptTokens: 300, completionTokens: 75, segments: 2, cost: expect.closeTo(0.3) });
+
+    usage = addSegmentUsage(usage, { promptTokens: 10, completionTokens: 5, cost: undefined });
+    usage = addSegmentUsage(usage, { promptTokens: 10, completionTokens: 5, cost: 0.1 });
+    expect(usage).toEqual({ promptTokens: 320, completionTokens: 85, segments: 4, cost: undefined });
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('should count turns without a cost separately', () => {
+    const summary = summarizeUsage([
+      assistantMessage({ promptTokens: 100, completionTokens: 50, cost: 0.5 }),
+      { annotations: [] },
+      assistantMessage({ promptTokens: 10, completionTokens: 5 }),
+    ]);
+
+    expect(summary).toEqual({ promptTokens: 110, completionTokens: 55, cost: 0.5, unpricedTurns: 1 });
+  });
+});
+
+describe('summarizeUsageByDay', () => {
+  it('should count each message on the day it was created', () => {
+    const days = summarizeUsageByDay([
+      {
+        timestamp: new Date(2024, 4, 3, 12).toISOString(),
+        messages: [
+          assistantMessage({ promptTokens: 100, completionTokens: 50, cost: 0.5 }, new Date(2024, 4, 1, 9)),
+          assistantMessage({ promptTokens: 10, completionTokens: 5, cost: 0.1 }, new Date(2024, 4, 1, 18)),
+          assistantMessage({ promptTokens: 20, completionTokens: 10, cost: 0.2 }),
+        ],
+      },
+      {
+        timestamp: new Date(2024, 4, 2, 8).toISOString(),
+        messages: [assistantMessage({ promptTokens: 1, completionTokens: 1 }, new Date(2024, 4, 1, 20))],
+      },
+    ]);
+
+    expect(days).toEqual([
+      { date: new Date(2024, 4, 3), usage: { promptTokens: 20, completionTokens: 10, cost: 0.2, unpricedTurns: 0 } },
+      {
+        date: new Date(2024, 4, 1),
+        usage: { promptTokens: 111, completionTokens: 56, cost: 0.6, unpricedTurns: 1 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Message } from 'ai';
+import { format, startOfDay } from 'date-fns';
+import type { UsageAnnotation } from '~/types/annotations';
+import { getMessageAnnotations } from './annotations';
+import type { ModelPricing } from './types';
+
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+
+  /**
+   * Number of turns whose cost is unknown, e.g. because the provider doesn't publish prices.
+   */
+  unpricedTurns: number;
+}
+
+/**
+ * Usage of the messages that were created on a calendar day.
+ */
+export interface DailyUsage {
+  // start of the day in local time
+  date: Date;
+  usage: UsageSummary;
+}
+
+export const EMPTY_USAGE_SUMMARY: UsageSummary = { promptTokens: 0, completionTokens: 0, cost: 0, unpricedTurns: 0 };
+
+export type TurnUsage = Pick<UsageAnnotation, 'promptTokens' | 'completionTokens' | 'segments' | 'cost'>;
+
+export const EMPTY_TURN_USAGE: TurnUsage = { promptTokens: 0, completionTokens: 0, segments: 0, cost: 0 };
+
+export function calculateCost(
+  pricing: ModelPricing | undefined,
+  usage: { promptTokens: number; completionTokens: number },
+): number | undefined {
+  if (!pricing) {
+    return undefined;
+  }
+
+  return usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion;
+}
+
+/**
+ * Adds the usage of a response segment to its turn, the cost stays undefined once a segment can't be priced.
+ */
+export function addSegmentUsage(
+  turn: TurnUsage,
+  segment: { promptTokens: number; completionTokens: number; cost: number | undefined },
+): TurnUsage {
+  return {
+    promptTokens: turn.promptTokens + segment.promptTokens,
+    completionTokens: turn.completionTokens + segment.completionTokens,
+    segments: turn.segments + 1,
+    cost: turn.cost === undefined || segment.cost === undefined ? undefined : turn.cost + segment.cost,
+  };
+}
+
+export function getUsageAnnotation(message: Pick<Message, 'annotations'>): UsageAnnotation | undefined {
+  return getMessageAnnotations(message, 'usage').at(-1);
+}
+
+export function summarizeUsage(messages: Array<Pick<Message, 'annotations'>>): UsageSummary {
+  return messages.reduce((summary, message) => {
+    const usage = getMessageUsage(message);
+
+    return usage ? addUsageSummaries(summary, usage) : summary;
+  }, EMPTY_USAGE_SUMMARY);
+}
+
+/**
+ * Sums up the usage of the chats by the day each message was created on, latest day first. Messages without
+ * a creation date, e.g. from before it was stored, count on the day the chat was last saved.
+ */
+export function summarizeUsageByDay(
+  chats: Array<{ messages: Array<Pick<Message, 'annotations' | 'createdAt'>>; timestamp: string }>,
+): DailyUsage[] {
+  const days = new Map<number, UsageSummary>();
+
+  for (const { messages, timestamp } of chats) {
+    for (const message of messages) {
+      const usage = getMessageUsage(message);
+
+      if (!usage) {
+        continue;
+      }
+
+      const createdAt = new Date(message.createdAt ?? timestamp);
+      const day = startOfDay(Number.isNaN(createdAt.getTime()) ? new Date(timestamp) : createdAt).getTime();
+
+      days.set(day, addUsageSummaries(days.get(day) ?? EMPTY_USAGE_SUMMARY, usage));
+    }
+  }
+
+  return [...days.entries()].sort(([a], [b]) => b - a).map(([day, usage]) => ({ date: new Date(day), usage }));
+}
+
+function getMessageUsage(message: Pick<Message, 'annotations'>): UsageSummary | undefined {
+  const usage = getUsageAnnotation(message);
+
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    cost: usage.cost ?? 0,
+    unpricedTurns: usage.cost === undefined ? 1 : 0,
+  };
+}
+
+export function addUsageSummaries(a: UsageSummary, b: UsageSummary): UsageSummary {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cost: a.cost + b.cost,
+    unpricedTurns: a.unpricedTurns + b.unpricedTurns,
+  };
+}
+
+export function formatTokens(tokens: number) {
+  if (tokens < 1000) {
+    return `${tokens}`;
+  }
+
+  return `${(tokens / 1000).toFixed(1)}k`;
+}
+
+export function formatCost(cost: number) {
+  // sub-cent amounts are common for single turns
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * One line per day, e.g. for a tooltip of the usage of several days.
+ */
+export function formatDailyUsage(days: DailyUsage[]) {
+  return days.map(({ date, usage }) => `${format(date, 'EEE, MMM d')}: ${formatUsageSummary(usage)}`).join('\n');
+}
+
+export function formatUsageSummary(summary: UsageSummary) {
+  const tokens = formatTokens(summary.promptTokens + summary.completionTokens);
+  const cost = summary.cost > 0 ? ` · ${formatCost(summary.cost)}${summary.unpricedTurns > 0 ? '+' : ''}` : '';
+
+  return `${tokens} tokens${cost}`;
+}
@@ -8,4 +8,8 @@ interface Env {
   OPENAI_LIKE_API_BASE_URL: string;
   DEEPSEEK_API_KEY: string;
   LMSTUDIO_API_BASE_URL: string;
+  PROVIDER_FALLBACK_CHAIN: string;
+  REPLAY_RECORD_DIR: string;
+  API_KEY_VAULT_SECRET: string;
+  API_KEY_VAULT_PREVIOUS_SECRET: string;
 }